@@ -0,0 +1,576 @@
+import {
+  ClarityValue,
+  ClarityTypeSignature,
+  checkCV,
+  signatureToString,
+  intCV,
+  uintCV,
+  trueCV,
+  falseCV,
+  bufferCV,
+  standardPrincipalCV,
+  contractPrincipalCV,
+  stringAsciiCV,
+  stringUtf8CV,
+  noneCV,
+  someCV,
+  responseOkCV,
+  responseErrorCV,
+  listCV,
+  tupleCV,
+} from './clarity';
+
+import { ContractPrincipal } from './types';
+
+import { parsePrincipalString } from './pc';
+
+import { isClarityInt } from './utils';
+
+import * as BigNum from 'bn.js';
+
+/**
+ * JSON representation of a Clarity type in a contract interface, as returned by the node,
+ * e.g. `{ "list": { "type": "uint128", "length": 10 } }` for `(list 10 uint)`
+ */
+export type ClarityAbiTypeJSON =
+  | 'int128'
+  | 'uint128'
+  | 'bool'
+  | 'principal'
+  | 'none'
+  | { buffer: { length: number } }
+  | { 'string-ascii': { length: number } }
+  | { 'string-utf8': { length: number } }
+  | { optional: ClarityAbiTypeJSON }
+  | { response: { ok: ClarityAbiTypeJSON; error: ClarityAbiTypeJSON } }
+  | { list: { type: ClarityAbiTypeJSON; length: number } }
+  | { tuple: { name: string; type: ClarityAbiTypeJSON }[] };
+
+export type ClarityFunctionAccess = 'public' | 'read_only' | 'private';
+
+export type ClarityVariableAccess = 'variable' | 'constant';
+
+export interface ClarityAbiFunctionJSON {
+  name: string;
+  access: ClarityFunctionAccess;
+  args: { name: string; type: ClarityAbiTypeJSON }[];
+  outputs?: { type: ClarityAbiTypeJSON };
+}
+
+export interface ClarityAbiVariableJSON {
+  name: string;
+  type: ClarityAbiTypeJSON;
+  access: ClarityVariableAccess;
+}
+
+export interface ClarityAbiMapJSON {
+  name: string;
+  key: ClarityAbiTypeJSON;
+  value: ClarityAbiTypeJSON;
+}
+
+/**
+ * JSON representation of a contract interface, as returned by the node
+ */
+export interface ClarityAbiJSON {
+  functions: ClarityAbiFunctionJSON[];
+  variables?: ClarityAbiVariableJSON[];
+  maps?: ClarityAbiMapJSON[];
+  fungible_tokens?: { name: string }[];
+  non_fungible_tokens?: { name: string; type: ClarityAbiTypeJSON }[];
+}
+
+export interface ClarityAbiArgument {
+  name: string;
+  type: ClarityTypeSignature;
+}
+
+/**
+ * A function of a contract
+ *
+ * @param  {String} name - the function name
+ * @param  {ClarityFunctionAccess} access - public functions can be called by transactions,
+ *                                          read-only functions only by other contracts and
+ *                                          the node's read-only endpoint
+ * @param  {ClarityAbiArgument[]} args - the names and types of the arguments, in order
+ * @param  {ClarityTypeSignature} output - the type of the return value, undefined if it is not
+ *                                         known, e.g. for an interface from
+ *                                         {@link analyzeContract}
+ */
+export interface ClarityAbiFunction {
+  name: string;
+  access: ClarityFunctionAccess;
+  args: ClarityAbiArgument[];
+  output?: ClarityTypeSignature;
+}
+
+export interface ClarityAbiVariable {
+  name: string;
+  type: ClarityTypeSignature;
+  access: ClarityVariableAccess;
+}
+
+export interface ClarityAbiMap {
+  name: string;
+  key: ClarityTypeSignature;
+  value: ClarityTypeSignature;
+}
+
+/**
+ * The interface of a contract: its functions, its data and the assets it defines
+ *
+ * @param  {ClarityAbiFunction[]} functions - the functions of the contract
+ * @param  {ClarityAbiVariable[]} variables - the data variables and constants, except that
+ *                                            {@link analyzeContract} leaves out constants
+ * @param  {ClarityAbiMap[]} maps - the data maps, with their key and value types
+ * @param  {String[]} fungibleTokens - the names of the fungible tokens
+ * @param  {ClarityAbiArgument[]} nonFungibleTokens - the names of the non-fungible tokens and
+ *                                                    the types of their token identifiers
+ */
+export interface ClarityAbi {
+  functions: ClarityAbiFunction[];
+  variables: ClarityAbiVariable[];
+  maps: ClarityAbiMap[];
+  fungibleTokens: string[];
+  nonFungibleTokens: ClarityAbiArgument[];
+}
+
+/**
+ * A plain JavaScript value to be converted to a Clarity value of a known type. Integers are
+ * numbers, bigints, decimal strings or BigNums; principals are "address" or "address.contract"
+ * strings; optionals are null or undefined for none; responses are `{ ok: value }` or
+ * `{ err: value }`; lists are arrays and tuples are objects.
+ */
+export type ClarityArgValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | Buffer
+  | BigNum
+  | null
+  | undefined
+  | ClarityArgValue[]
+  | { [key: string]: ClarityArgValue };
+
+/**
+ * Reads a contract interface in the JSON format returned by the node
+ *
+ * @param  {ClarityAbiJSON | String} json - the interface, or its JSON text
+ *
+ * @return {ClarityAbi}
+ */
+export function abiFromJSON(json: ClarityAbiJSON | string): ClarityAbi {
+  const abi: ClarityAbiJSON = typeof json === 'string' ? JSON.parse(json) : json;
+  if (abi.functions === undefined) {
+    throw new Error('"functions" is undefined');
+  }
+  return {
+    functions: abi.functions.map(abiFunctionFromJSON),
+    variables: (abi.variables ?? []).map(variable => ({
+      name: variable.name,
+      type: abiTypeFromJSON(variable.type),
+      access: variable.access,
+    })),
+    maps: (abi.maps ?? []).map(map => ({
+      name: map.name,
+      key: abiTypeFromJSON(map.key),
+      value: abiTypeFromJSON(map.value),
+    })),
+    fungibleTokens: (abi.fungible_tokens ?? []).map(token => token.name),
+    nonFungibleTokens: (abi.non_fungible_tokens ?? []).map(token => ({
+      name: token.name,
+      type: abiTypeFromJSON(token.type),
+    })),
+  };
+}
+
+export function abiToJSON(abi: ClarityAbi): ClarityAbiJSON {
+  return {
+    functions: abi.functions.map(fn => {
+      const json: ClarityAbiFunctionJSON = {
+        name: fn.name,
+        access: fn.access,
+        args: fn.args.map(arg => ({ name: arg.name, type: abiTypeToJSON(arg.type) })),
+      };
+      if (fn.output !== undefined) {
+        json.outputs = { type: abiTypeToJSON(fn.output) };
+      }
+      return json;
+    }),
+    variables: abi.variables.map(variable => ({
+      name: variable.name,
+      type: abiTypeToJSON(variable.type),
+      access: variable.access,
+    })),
+    maps: abi.maps.map(map => ({
+      name: map.name,
+      key: abiTypeToJSON(map.key),
+      value: abiTypeToJSON(map.value),
+    })),
+    fungible_tokens: abi.fungibleTokens.map(name => ({ name })),
+    non_fungible_tokens: abi.nonFungibleTokens.map(token => ({
+      name: token.name,
+      type: abiTypeToJSON(token.type),
+    })),
+  };
+}
+
+function abiFunctionFromJSON(fn: ClarityAbiFunctionJSON): ClarityAbiFunction {
+  if (fn.name === undefined) {
+    throw new Error('"name" is undefined');
+  }
+  if (!['public', 'read_only', 'private'].includes(fn.access)) {
+    throw new Error(`Invalid access "${fn.access}" of function "${fn.name}"`);
+  }
+  if (!Array.isArray(fn.args)) {
+    throw new Error(`Invalid args of function "${fn.name}", expected an array`);
+  }
+  const args = fn.args.map(arg => {
+    if (typeof arg !== 'object' || arg === null || typeof arg.name !== 'string') {
+      throw new Error(`Invalid argument of function "${fn.name}", expected a name and type`);
+    }
+    return { name: arg.name, type: abiTypeFromJSON(arg.type) };
+  });
+  if (fn.outputs === undefined) {
+    return { name: fn.name, access: fn.access, args };
+  }
+  if (typeof fn.outputs !== 'object' || fn.outputs === null) {
+    throw new Error(`Invalid outputs of function "${fn.name}", expected an object`);
+  }
+  return { name: fn.name, access: fn.access, args, output: abiTypeFromJSON(fn.outputs.type) };
+}
+
+function abiTypeFromJSON(json: ClarityAbiTypeJSON): ClarityTypeSignature {
+  if (json === undefined) {
+    throw new Error('"type" is undefined');
+  }
+  if (typeof json === 'string') {
+    switch (json) {
+      case 'int128':
+        return { type: 'int' };
+      case 'uint128':
+        return { type: 'uint' };
+      case 'bool':
+        return { type: 'bool' };
+      case 'principal':
+        return { type: 'principal' };
+      case 'none':
+        return { type: 'no-type' };
+    }
+  } else if (typeof json !== 'object' || json === null) {
+    // neither a type name nor a type object, rejected below
+  } else if ('buffer' in json && isAbiLength(json.buffer)) {
+    return { type: 'buff', length: json.buffer.length };
+  } else if ('string-ascii' in json && isAbiLength(json['string-ascii'])) {
+    return { type: 'string-ascii', length: json['string-ascii'].length };
+  } else if ('string-utf8' in json && isAbiLength(json['string-utf8'])) {
+    return { type: 'string-utf8', length: json['string-utf8'].length };
+  } else if ('optional' in json) {
+    return { type: 'optional', value: abiTypeFromJSON(json.optional) };
+  } else if ('response' in json && typeof json.response === 'object' && json.response !== null) {
+    return {
+      type: 'response',
+      ok: abiTypeFromJSON(json.response.ok),
+      err: abiTypeFromJSON(json.response.error),
+    };
+  } else if ('list' in json && isAbiLength(json.list)) {
+    return { type: 'list', entry: abiTypeFromJSON(json.list.type), length: json.list.length };
+  } else if ('tuple' in json && Array.isArray(json.tuple)) {
+    const fields: { [key: string]: ClarityTypeSignature } = {};
+    json.tuple.forEach(field => {
+      if (typeof field !== 'object' || field === null || typeof field.name !== 'string') {
+        throw new Error(`Invalid Clarity type ${JSON.stringify(json)}`);
+      }
+      fields[field.name] = abiTypeFromJSON(field.type);
+    });
+    return { type: 'tuple', fields };
+  }
+  throw new Error(`Invalid Clarity type ${JSON.stringify(json)}`);
+}
+
+function isAbiLength(json: { length: number } | null): boolean {
+  return (
+    typeof json === 'object' &&
+    json !== null &&
+    Number.isSafeInteger(json.length) &&
+    json.length >= 0
+  );
+}
+
+function abiTypeToJSON(signature: ClarityTypeSignature): ClarityAbiTypeJSON {
+  switch (signature.type) {
+    case 'int':
+      return 'int128';
+    case 'uint':
+      return 'uint128';
+    case 'bool':
+    case 'principal':
+      return signature.type;
+    case 'no-type':
+      return 'none';
+    case 'buff':
+      return { buffer: { length: signature.length } };
+    case 'string-ascii':
+      return { 'string-ascii': { length: signature.length } };
+    case 'string-utf8':
+      return { 'string-utf8': { length: signature.length } };
+    case 'optional':
+      return { optional: abiTypeToJSON(signature.value) };
+    case 'response':
+      return { response: { ok: abiTypeToJSON(signature.ok), error: abiTypeToJSON(signature.err) } };
+    case 'list':
+      return { list: { type: abiTypeToJSON(signature.entry), length: signature.length } };
+    case 'tuple':
+      return {
+        tuple: Object.keys(signature.fields).map(name => ({
+          name,
+          type: abiTypeToJSON(signature.fields[name]),
+        })),
+      };
+  }
+}
+
+/**
+ * Finds a function of a contract by name
+ *
+ * @param  {ClarityAbi} abi - the contract interface
+ * @param  {String} functionName - the function name
+ *
+ * @return {ClarityAbiFunction}
+ * @throws if the contract has no such function
+ */
+export function getAbiFunction(abi: ClarityAbi, functionName: string): ClarityAbiFunction {
+  const fn = abi.functions.find(candidate => candidate.name === functionName);
+  if (fn === undefined) {
+    throw new Error(`"${functionName}" is not a function of the contract`);
+  }
+  return fn;
+}
+
+/**
+ * Converts plain JavaScript arguments to Clarity values of the argument types of a function,
+ * ready to be passed as the function arguments of a contract call.
+ *
+ * @param  {ClarityAbiFunction} fn - the function to call
+ * @param  {ClarityArgValue[] | Object} args - the arguments in order, or by argument name
+ *
+ * @return {ClarityValue[]}
+ * @throws if an argument is missing, unexpected, or does not convert to its argument type
+ */
+export function encodeFunctionArgs(
+  fn: ClarityAbiFunction,
+  args: ClarityArgValue[] | { [name: string]: ClarityArgValue }
+): ClarityValue[] {
+  if (Array.isArray(args)) {
+    if (args.length !== fn.args.length) {
+      throw new Error(`Expected ${fn.args.length} arguments for "${fn.name}", got ${args.length}`);
+    }
+    return fn.args.map((arg, index) => argToCV(args[index], arg.type, arg.name));
+  }
+  const unexpected = Object.keys(args).find(name => !fn.args.some(arg => arg.name === name));
+  if (unexpected !== undefined) {
+    throw new Error(`Unexpected argument "${unexpected}" for "${fn.name}"`);
+  }
+  return fn.args.map(arg => {
+    if (!(arg.name in args)) {
+      throw new Error(`Missing argument "${arg.name}" for "${fn.name}"`);
+    }
+    return argToCV(args[arg.name], arg.type, arg.name);
+  });
+}
+
+/**
+ * Checks that Clarity values are valid arguments for a function: that there are as many as
+ * the function takes and that each has the type of its argument.
+ *
+ * @param  {ClarityAbiFunction} fn - the function to call
+ * @param  {ClarityValue[]} functionArgs - the arguments
+ *
+ * @throws if the arguments do not match the function
+ */
+export function validateFunctionArgs(fn: ClarityAbiFunction, functionArgs: ClarityValue[]) {
+  if (functionArgs.length !== fn.args.length) {
+    throw new Error(
+      `Expected ${fn.args.length} arguments for "${fn.name}", got ${functionArgs.length}`
+    );
+  }
+  fn.args.forEach((arg, index) => assertType(functionArgs[index], arg.type, arg.name));
+}
+
+/**
+ * Converts a plain JavaScript value to a Clarity value of the given type, see
+ * {@link ClarityArgValue} for the accepted values
+ *
+ * @param  {ClarityArgValue} value - the value
+ * @param  {ClarityTypeSignature} signature - the type of the Clarity value
+ * @param  {String} name - how to refer to the value in errors
+ *
+ * @return {ClarityValue}
+ * @throws if the value does not convert to the type
+ */
+export function argToCV(
+  value: ClarityArgValue,
+  signature: ClarityTypeSignature,
+  name = 'value'
+): ClarityValue {
+  const cv = convert(value, signature, name);
+  assertType(cv, signature, name);
+  return cv;
+}
+
+function assertType(cv: ClarityValue, signature: ClarityTypeSignature, name: string) {
+  const [mismatch] = checkCV(cv, signature);
+  if (mismatch !== undefined) {
+    throw new Error(
+      `Invalid argument "${mismatch.path.replace(/^value/, name)}": ${mismatch.message}`
+    );
+  }
+}
+
+function convert(
+  value: ClarityArgValue,
+  signature: ClarityTypeSignature,
+  path: string
+): ClarityValue {
+  const invalid = () =>
+    new Error(
+      `Invalid argument "${path}": expected ${signatureToString(signature)}, found ${describeValue(
+        value
+      )}`
+    );
+  switch (signature.type) {
+    case 'int':
+    case 'uint':
+      const integer = integerString(value);
+      if (integer === undefined || (signature.type === 'uint' && integer.startsWith('-'))) {
+        throw invalid();
+      }
+      const outOfRange = new Error(`Invalid argument "${path}": ${integer} is out of range`);
+      if (signature.type === 'int') {
+        if (!isClarityInt(new BigNum(integer, 10))) {
+          throw outOfRange;
+        }
+        return intCV(integer);
+      }
+      try {
+        return uintCV(integer);
+      } catch (e) {
+        throw outOfRange;
+      }
+    case 'bool':
+      if (typeof value !== 'boolean') {
+        throw invalid();
+      }
+      return value ? trueCV() : falseCV();
+    case 'principal':
+      if (typeof value !== 'string') {
+        throw invalid();
+      }
+      try {
+        const principal = parsePrincipalString(value);
+        return principal instanceof ContractPrincipal
+          ? contractPrincipalCV(principal.address.toString(), principal.contractName.toString())
+          : standardPrincipalCV(value);
+      } catch (e) {
+        throw invalid();
+      }
+    case 'buff':
+      if (!Buffer.isBuffer(value)) {
+        throw invalid();
+      }
+      return bufferCV(value);
+    case 'string-ascii':
+    case 'string-utf8':
+      if (typeof value !== 'string') {
+        throw invalid();
+      }
+      try {
+        return signature.type === 'string-ascii' ? stringAsciiCV(value) : stringUtf8CV(value);
+      } catch (e) {
+        throw invalid();
+      }
+    case 'optional':
+      if (value === null || value === undefined) {
+        return noneCV();
+      }
+      return someCV(convert(value, signature.value, path));
+    case 'response':
+      if (isPlainObject(value) && Object.keys(value).length === 1) {
+        if ('ok' in value) {
+          return responseOkCV(convert(value.ok, signature.ok, `${path}.ok`));
+        }
+        if ('err' in value) {
+          return responseErrorCV(convert(value.err, signature.err, `${path}.err`));
+        }
+      }
+      throw invalid();
+    case 'list':
+      if (!Array.isArray(value)) {
+        throw invalid();
+      }
+      return listCV(
+        value.map((entry, index) => convert(entry, signature.entry, `${path}[${index}]`))
+      );
+    case 'tuple':
+      if (!isPlainObject(value)) {
+        throw invalid();
+      }
+      const data: { [key: string]: ClarityValue } = {};
+      const unexpectedField = Object.keys(value).find(key => signature.fields[key] === undefined);
+      if (unexpectedField !== undefined) {
+        throw new Error(`Invalid argument "${path}": unexpected tuple field "${unexpectedField}"`);
+      }
+      Object.keys(signature.fields).forEach(key => {
+        if (!(key in value)) {
+          throw new Error(`Invalid argument "${path}": missing tuple field "${key}"`);
+        }
+        data[key] = convert(value[key], signature.fields[key], `${path}.${key}`);
+      });
+      return tupleCV(data);
+    case 'no-type':
+      throw invalid();
+  }
+}
+
+function integerString(value: ClarityArgValue): string | undefined {
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? value.toString(10) : undefined;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString(10);
+  }
+  if (typeof value === 'string') {
+    return /^-?[0-9]+$/.test(value) ? value : undefined;
+  }
+  if (BigNum.isBN(value)) {
+    return value.toString(10);
+  }
+  return undefined;
+}
+
+function isPlainObject(value: ClarityArgValue): value is { [key: string]: ClarityArgValue } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value) &&
+    !BigNum.isBN(value)
+  );
+}
+
+function describeValue(value: ClarityArgValue): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (value === null || value === undefined || typeof value !== 'object') {
+    return String(value);
+  }
+  if (Buffer.isBuffer(value)) {
+    return 'buffer';
+  }
+  if (BigNum.isBN(value)) {
+    return value.toString(10);
+  }
+  return Array.isArray(value) ? 'array' : 'object';
+}
@@ -0,0 +1,346 @@
+import { ClarityParseError } from './errors';
+
+import { ClarityAbi, ClarityAbiArgument, ClarityAbiFunction, ClarityFunctionAccess } from './abi';
+
+import { ClarityTypeSignature } from './clarity';
+
+import { isClarityName } from './utils';
+
+const FUNCTION_ACCESS: { [define: string]: ClarityFunctionAccess } = {
+  'define-public': 'public',
+  'define-read-only': 'read_only',
+  'define-private': 'private',
+};
+
+type Expression =
+  | { kind: 'atom'; value: string; index: number }
+  | { kind: 'string'; index: number }
+  | { kind: 'list'; items: Expression[]; index: number }
+  | { kind: 'braces'; items: Expression[]; index: number };
+
+/**
+ * Extracts the interface of a contract from its Clarity source, without a node: functions
+ * defined with `define-public`, `define-read-only` and `define-private` with their argument
+ * types, data variables, maps, and fungible and non-fungible tokens.
+ *
+ * Function bodies are not type-checked, so the output type of every function is left
+ * undefined. Constants are skipped, as their types would have to be inferred from their
+ * values, and other top-level expressions are ignored.
+ *
+ * @param  {String} codeBody - the Clarity source of the contract
+ *
+ * @return {ClarityAbi}
+ * @throws {ClarityParseError} if the source is malformed or a definition is invalid
+ */
+export function analyzeContract(codeBody: string): ClarityAbi {
+  return new SourceAnalyzer(codeBody).analyzeContract();
+}
+
+/**
+ * Parses a Clarity type, e.g. `(list 10 (tuple (id uint) (owner principal)))`, into a
+ * type signature. Tuple types can also be written `((id uint) (owner principal))` or
+ * `{ id: uint, owner: principal }`.
+ *
+ * @param  {String} source - the Clarity type
+ *
+ * @return {ClarityTypeSignature}
+ * @throws {ClarityParseError} if the source is not a valid type
+ */
+export function parseTypeSignature(source: string): ClarityTypeSignature {
+  const analyzer = new SourceAnalyzer(source);
+  const expressions = analyzer.readAll();
+  if (expressions.length !== 1) {
+    throw analyzer.error('Expected a single type', expressions[1]?.index ?? source.length);
+  }
+  return analyzer.readType(expressions[0]);
+}
+
+class SourceAnalyzer {
+  source: string;
+  index: number;
+
+  constructor(source: string) {
+    this.source = source;
+    this.index = 0;
+  }
+
+  analyzeContract(): ClarityAbi {
+    const abi: ClarityAbi = {
+      functions: [],
+      variables: [],
+      maps: [],
+      fungibleTokens: [],
+      nonFungibleTokens: [],
+    };
+    this.readAll().forEach(expression => {
+      if (expression.kind !== 'list' || expression.items[0]?.kind !== 'atom') {
+        return;
+      }
+      const [define, ...args] = expression.items;
+      switch (define.value) {
+        case 'define-public':
+        case 'define-read-only':
+        case 'define-private':
+          abi.functions.push(this.readFunction(expression, FUNCTION_ACCESS[define.value], args));
+          return;
+        case 'define-data-var':
+          if (args.length !== 3) {
+            throw this.error('Invalid define-data-var', expression.index);
+          }
+          abi.variables.push({
+            name: this.readName(args[0]),
+            type: this.readType(args[1]),
+            access: 'variable',
+          });
+          return;
+        case 'define-map':
+          if (args.length !== 3) {
+            throw this.error('Invalid define-map', expression.index);
+          }
+          abi.maps.push({
+            name: this.readName(args[0]),
+            key: this.readType(args[1]),
+            value: this.readType(args[2]),
+          });
+          return;
+        case 'define-fungible-token':
+          if (args.length !== 1 && args.length !== 2) {
+            throw this.error('Invalid define-fungible-token', expression.index);
+          }
+          abi.fungibleTokens.push(this.readName(args[0]));
+          return;
+        case 'define-non-fungible-token':
+          if (args.length !== 2) {
+            throw this.error('Invalid define-non-fungible-token', expression.index);
+          }
+          abi.nonFungibleTokens.push({
+            name: this.readName(args[0]),
+            type: this.readType(args[1]),
+          });
+          return;
+      }
+    });
+    return abi;
+  }
+
+  readAll(): Expression[] {
+    const expressions: Expression[] = [];
+    this.skipWhitespace();
+    while (this.index < this.source.length) {
+      expressions.push(this.readExpression());
+      this.skipWhitespace();
+    }
+    return expressions;
+  }
+
+  readType(expression: Expression): ClarityTypeSignature {
+    if (expression.kind === 'atom') {
+      switch (expression.value) {
+        case 'int':
+        case 'uint':
+        case 'bool':
+        case 'principal':
+          return { type: expression.value };
+        default:
+          throw this.error(`Unknown type "${expression.value}"`, expression.index);
+      }
+    }
+    if (expression.kind === 'braces') {
+      return this.readBracesTuple(expression.items, expression.index);
+    }
+    if (expression.kind !== 'list' || expression.items.length === 0) {
+      throw this.error('Invalid type', expression.index);
+    }
+    const [name, ...args] = expression.items;
+    if (name.kind === 'list') {
+      return this.readTupleEntries(expression.items, expression.index);
+    }
+    if (name.kind !== 'atom') {
+      throw this.error('Invalid type', expression.index);
+    }
+    const expectArgs = (count: number) => {
+      if (args.length !== count) {
+        throw this.error(`Invalid ${name.value} type`, expression.index);
+      }
+    };
+    switch (name.value) {
+      case 'buff':
+      case 'string-ascii':
+      case 'string-utf8':
+        expectArgs(1);
+        return { type: name.value, length: this.readLength(args[0]) };
+      case 'optional':
+        expectArgs(1);
+        return { type: 'optional', value: this.readType(args[0]) };
+      case 'response':
+        expectArgs(2);
+        return { type: 'response', ok: this.readType(args[0]), err: this.readType(args[1]) };
+      case 'list':
+        expectArgs(2);
+        return { type: 'list', length: this.readLength(args[0]), entry: this.readType(args[1]) };
+      case 'tuple':
+        return this.readTupleEntries(args, expression.index);
+      default:
+        throw this.error(`Unknown type "${name.value}"`, name.index);
+    }
+  }
+
+  error(message: string, index: number): ClarityParseError {
+    const lines = this.source.slice(0, index).split('\n');
+    return new ClarityParseError(message, lines.length, lines[lines.length - 1].length + 1);
+  }
+
+  private readFunction(
+    expression: Expression,
+    access: ClarityFunctionAccess,
+    args: Expression[]
+  ): ClarityAbiFunction {
+    const [signature] = args;
+    if (args.length !== 2 || signature.kind !== 'list' || signature.items.length === 0) {
+      throw this.error('Invalid function definition', expression.index);
+    }
+    const [name, ...params] = signature.items;
+    return {
+      name: this.readName(name),
+      access,
+      args: params.map(param => {
+        if (param.kind !== 'list' || param.items.length !== 2) {
+          throw this.error('Invalid function argument', param.index);
+        }
+        return { name: this.readName(param.items[0]), type: this.readType(param.items[1]) };
+      }),
+    };
+  }
+
+  private readTupleEntries(entries: Expression[], index: number): ClarityTypeSignature {
+    const fields: ClarityAbiArgument[] = entries.map(entry => {
+      if (entry.kind !== 'list' || entry.items.length !== 2) {
+        throw this.error('Invalid tuple entry', entry.index);
+      }
+      return { name: this.readName(entry.items[0]), type: this.readType(entry.items[1]) };
+    });
+    return this.tupleType(fields, entries, index);
+  }
+
+  private readBracesTuple(items: Expression[], index: number): ClarityTypeSignature {
+    const fields: ClarityAbiArgument[] = [];
+    const keys: Expression[] = [];
+    for (let i = 0; i < items.length; i += 3) {
+      const separator = items[i + 1];
+      if (separator?.kind !== 'atom' || separator.value !== ':' || items[i + 2] === undefined) {
+        throw this.error('Expected ":"', separator?.index ?? index);
+      }
+      fields.push({ name: this.readName(items[i]), type: this.readType(items[i + 2]) });
+      keys.push(items[i]);
+    }
+    return this.tupleType(fields, keys, index);
+  }
+
+  private tupleType(
+    fields: ClarityAbiArgument[],
+    keys: Expression[],
+    index: number
+  ): ClarityTypeSignature {
+    if (fields.length === 0) {
+      throw this.error('Invalid tuple type', index);
+    }
+    const tuple: { [key: string]: ClarityTypeSignature } = {};
+    fields.forEach((field, index) => {
+      if (tuple[field.name] !== undefined) {
+        throw this.error(`Duplicate tuple key "${field.name}"`, keys[index].index);
+      }
+      tuple[field.name] = field.type;
+    });
+    return { type: 'tuple', fields: tuple };
+  }
+
+  private readName(expression: Expression): string {
+    if (expression.kind !== 'atom' || !isClarityName(expression.value)) {
+      throw this.error('Expected a name', expression.index);
+    }
+    return expression.value;
+  }
+
+  private readLength(expression: Expression): number {
+    if (expression.kind !== 'atom' || !/^[0-9]+$/.test(expression.value)) {
+      throw this.error('Expected a length', expression.index);
+    }
+    return parseInt(expression.value, 10);
+  }
+
+  private readExpression(): Expression {
+    this.skipWhitespace();
+    const start = this.index;
+    const char = this.source[this.index];
+    if (char === undefined) {
+      throw this.error('Unexpected end of input', start);
+    }
+    if (char === '(' || char === '{') {
+      return this.readItems(char === '(' ? ')' : '}');
+    }
+    if (char === ')' || char === '}') {
+      throw this.error(`Unexpected "${char}"`, start);
+    }
+    if (char === '"' || (char === 'u' && this.source[this.index + 1] === '"')) {
+      this.skipString();
+      return { kind: 'string', index: start };
+    }
+    if (char === ':') {
+      this.index++;
+      return { kind: 'atom', value: ':', index: start };
+    }
+    const match = /^[^\s(){}";,:]+/.exec(this.source.slice(this.index));
+    const value = match ? match[0] : '';
+    this.index += value.length;
+    return { kind: 'atom', value, index: start };
+  }
+
+  private readItems(close: string): Expression {
+    const start = this.index;
+    this.index++;
+    const items: Expression[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.source[this.index];
+      if (char === undefined) {
+        throw this.error(`Expected "${close}"`, this.index);
+      }
+      if (char === close) {
+        this.index++;
+        return close === ')'
+          ? { kind: 'list', items, index: start }
+          : { kind: 'braces', items, index: start };
+      }
+      items.push(this.readExpression());
+    }
+  }
+
+  private skipString() {
+    const start = this.index;
+    this.index = this.source.indexOf('"', this.index) + 1;
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === '"') {
+        this.index++;
+        return;
+      }
+      this.index += char === '\\' ? 2 : 1;
+    }
+    throw this.error('Unterminated string', start);
+  }
+
+  private skipWhitespace() {
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === ';') {
+        while (this.index < this.source.length && this.source[this.index] !== '\n') {
+          this.index++;
+        }
+      } else if (/\s/.test(char) || char === ',') {
+        this.index++;
+      } else {
+        return;
+      }
+    }
+  }
+}
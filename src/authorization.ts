@@ -3,13 +3,22 @@ import * as _ from 'lodash';
 import {
   AuthType,
   AddressHashMode,
+  AuthFieldType,
   PubKeyEncoding,
   RECOVERABLE_ECDSA_SIG_LENGTH_BYTES,
 } from './constants';
 
-import { BufferArray, BufferReader, txidFromData, sha512_256 } from './utils';
+import {
+  BufferArray,
+  BufferReader,
+  txidFromData,
+  leftPadHexToLength,
+  enumToName,
+  enumFromName,
+  bigNumFromDecimal,
+} from './utils';
 
-import { Address } from './types';
+import { Address, LengthPrefixedList } from './types';
 
 import { StacksPublicKey, StacksPrivateKey } from './keys';
 
@@ -17,12 +26,32 @@ import { StacksMessage } from './message';
 
 import * as BigNum from 'bn.js';
 
-export class SpendingAuthorizationField {
-  fieldID?: Buffer;
-  body?: Buffer;
+import { ec as EC } from 'elliptic';
+
+const DER_SEQUENCE_TAG = 0x30;
+const DER_INTEGER_TAG = 0x02;
+
+function encodeDERInteger(value: BigNum): Buffer {
+  let bytes = value.toArrayLike(Buffer, 'be');
+  if (bytes[0] & 0x80) {
+    // prefix a zero byte so the value is not read as negative
+    bytes = Buffer.concat([Buffer.from([0x00]), bytes]);
+  }
+  return Buffer.concat([Buffer.from([DER_INTEGER_TAG, bytes.byteLength]), bytes]);
+}
+
+function decodeDERInteger(bufferReader: BufferReader): BigNum {
+  if (bufferReader.readUInt8() !== DER_INTEGER_TAG) {
+    throw new Error('Invalid DER signature: expected an integer');
+  }
+  const length = bufferReader.readUInt8();
+  if (length === 0 || length > 33) {
+    throw new Error('Invalid DER signature: bad integer length');
+  }
+  return new BigNum(bufferReader.read(length).toString('hex'), 16);
 }
 
-export class MessageSignature extends StacksMessage {
+export class MessageSignature extends StacksMessage<string> {
   signature?: string;
 
   constructor(signature?: string) {
@@ -44,6 +73,122 @@ export class MessageSignature extends StacksMessage {
     return messageSignature;
   }
 
+  /**
+   * Builds a recoverable signature from a DER encoded ECDSA signature
+   *
+   * DER signatures carry no recovery parameter, so it is found by matching the public key
+   * recovered from messageHash against publicKey. A high s value is normalized to its low form.
+   *
+   * @param  {String} derSignature - hex string of the DER encoded signature
+   * @param  {String} messageHash - hex string of the signed hash
+   * @param  {StacksPublicKey} publicKey - the public key that made the signature
+   *
+   * @return {MessageSignature}
+   */
+  static fromDER(
+    derSignature: string,
+    messageHash: string,
+    publicKey: StacksPublicKey
+  ): MessageSignature {
+    const bufferReader = new BufferReader(Buffer.from(derSignature, 'hex'));
+    if (bufferReader.readUInt8() !== DER_SEQUENCE_TAG) {
+      throw new Error('Invalid DER signature: expected a sequence');
+    }
+    if (bufferReader.readUInt8() !== bufferReader.remaining()) {
+      throw new Error('Invalid DER signature: bad sequence length');
+    }
+    const r = decodeDERInteger(bufferReader);
+    let s = decodeDERInteger(bufferReader);
+    if (bufferReader.remaining() !== 0) {
+      throw new Error('Invalid DER signature: unexpected trailing bytes');
+    }
+
+    const n = new EC('secp256k1').n as BigNum;
+    if (s.cmp(n.shrn(1)) > 0) {
+      s = n.sub(s);
+    }
+
+    const coordinateValueBytes = 32;
+    const rs =
+      leftPadHexToLength(r.toString(16), coordinateValueBytes * 2) +
+      leftPadHexToLength(s.toString(16), coordinateValueBytes * 2);
+    for (let recoveryParam = 0; recoveryParam < 4; recoveryParam++) {
+      const signature = new MessageSignature(Buffer.from([recoveryParam]).toString('hex') + rs);
+      if (signature.verify(messageHash, publicKey)) {
+        return signature;
+      }
+    }
+    throw new Error('Signature does not match the public key');
+  }
+
+  /**
+   * Splits the signature into its recovery parameter and the hex strings of r and s
+   */
+  components(): { recoveryParam: number; r: string; s: string } {
+    if (this.signature === undefined) {
+      throw new Error('"signature" is undefined');
+    }
+    const coordinateValueBytes = 32;
+    return {
+      recoveryParam: parseInt(this.signature.slice(0, 2), 16),
+      r: this.signature.slice(2, 2 + coordinateValueBytes * 2),
+      s: this.signature.slice(2 + coordinateValueBytes * 2),
+    };
+  }
+
+  /**
+   * Recovers the public key that signed messageHash
+   *
+   * @param  {String} messageHash - hex string of the signed hash
+   * @param  {PubKeyEncoding} pubKeyEncoding - the encoding of the returned public key
+   *
+   * @return {StacksPublicKey}
+   */
+  recoverPublicKey(
+    messageHash: string,
+    pubKeyEncoding: PubKeyEncoding = PubKeyEncoding.Compressed
+  ): StacksPublicKey {
+    return StacksPublicKey.fromSignature(messageHash, this, pubKeyEncoding);
+  }
+
+  /**
+   * Checks that this is a valid signature of messageHash by publicKey, including that its
+   * recovery parameter recovers publicKey
+   *
+   * @param  {String} messageHash - hex string of the signed hash
+   * @param  {StacksPublicKey} publicKey - the expected signer
+   *
+   * @return {Boolean}
+   */
+  verify(messageHash: string, publicKey: StacksPublicKey): boolean {
+    const { r, s } = this.components();
+    const ec = new EC('secp256k1');
+    const hash = Buffer.from(messageHash, 'hex');
+    try {
+      if (!ec.verify(hash, { r, s }, publicKey.serialize())) {
+        return false;
+      }
+      const recovered = this.recoverPublicKey(messageHash);
+      return recovered.toString() === publicKey.toCompressed().toString();
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Returns the hex string of the DER encoding of the signature, without recovery parameter
+   */
+  toDER(): string {
+    const { r, s } = this.components();
+    const integers = Buffer.concat([
+      encodeDERInteger(new BigNum(r, 16)),
+      encodeDERInteger(new BigNum(s, 16)),
+    ]);
+    return Buffer.concat([Buffer.from([DER_SEQUENCE_TAG, integers.byteLength]), integers]).toString(
+      'hex'
+    );
+  }
+
   toString(): string {
     return this.signature ?? '';
   }
@@ -60,15 +205,178 @@ export class MessageSignature extends StacksMessage {
   deserialize(bufferReader: BufferReader) {
     this.signature = bufferReader.read(RECOVERABLE_ECDSA_SIG_LENGTH_BYTES).toString('hex');
   }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  fromJSON(json: string) {
+    if (Buffer.from(json, 'hex').byteLength != RECOVERABLE_ECDSA_SIG_LENGTH_BYTES) {
+      throw Error('Invalid signature');
+    }
+    this.signature = json;
+  }
+}
+
+/**
+ * JSON representation of a {@link SpendingAuthorizationField}, holding the public key or the
+ * signature depending on the field type
+ */
+export interface SpendingAuthorizationFieldJSON {
+  fieldType: string;
+  publicKey?: string;
+  signature?: string;
+}
+
+/**
+ * A single entry of a multisig spending condition: either the public key of a signer
+ * that did not sign, or a recoverable signature from one that did.
+ */
+export class SpendingAuthorizationField extends StacksMessage<SpendingAuthorizationFieldJSON> {
+  fieldType?: AuthFieldType;
+  publicKey?: StacksPublicKey;
+  signature?: MessageSignature;
+
+  static fromPublicKey(publicKey: StacksPublicKey): SpendingAuthorizationField {
+    const field = new this();
+    field.fieldType = publicKey.compressed()
+      ? AuthFieldType.PublicKeyCompressed
+      : AuthFieldType.PublicKeyUncompressed;
+    field.publicKey = publicKey;
+    return field;
+  }
+
+  static fromSignature(
+    signature: MessageSignature,
+    pubKeyEncoding: PubKeyEncoding
+  ): SpendingAuthorizationField {
+    const field = new this();
+    field.fieldType =
+      pubKeyEncoding === PubKeyEncoding.Compressed
+        ? AuthFieldType.SignatureCompressed
+        : AuthFieldType.SignatureUncompressed;
+    field.signature = signature;
+    return field;
+  }
+
+  isSignature(): boolean {
+    return (
+      this.fieldType === AuthFieldType.SignatureCompressed ||
+      this.fieldType === AuthFieldType.SignatureUncompressed
+    );
+  }
+
+  pubKeyEncoding(): PubKeyEncoding {
+    return this.fieldType === AuthFieldType.PublicKeyCompressed ||
+      this.fieldType === AuthFieldType.SignatureCompressed
+      ? PubKeyEncoding.Compressed
+      : PubKeyEncoding.Uncompressed;
+  }
+
+  serialize(): Buffer {
+    const bufferArray: BufferArray = new BufferArray();
+    if (this.fieldType === undefined) {
+      throw new Error('"fieldType" is undefined');
+    }
+    bufferArray.appendByte(this.fieldType);
+
+    if (this.isSignature()) {
+      if (this.signature === undefined) {
+        throw new Error('"signature" is undefined');
+      }
+      bufferArray.push(this.signature.serialize());
+    } else {
+      if (this.publicKey === undefined) {
+        throw new Error('"publicKey" is undefined');
+      }
+      // public keys are always written in compressed form, the field type carries the encoding
+      bufferArray.push(this.publicKey.toCompressed().serialize());
+    }
+
+    return bufferArray.concatBuffer();
+  }
+
+  deserialize(bufferReader: BufferReader) {
+    this.fieldType = bufferReader.readEnum<AuthFieldType>(AuthFieldType, 'AuthFieldType');
+
+    switch (this.fieldType) {
+      case AuthFieldType.PublicKeyCompressed:
+        this.publicKey = StacksPublicKey.deserialize(bufferReader);
+        break;
+      case AuthFieldType.PublicKeyUncompressed:
+        this.publicKey = StacksPublicKey.deserialize(bufferReader).toUncompressed();
+        break;
+      case AuthFieldType.SignatureCompressed:
+      case AuthFieldType.SignatureUncompressed:
+        this.signature = MessageSignature.deserialize(bufferReader);
+        break;
+      default:
+        throw new Error(`Unexpected auth field type ${this.fieldType}`);
+    }
+  }
+
+  toJSON(): SpendingAuthorizationFieldJSON {
+    const fieldType = enumToName(AuthFieldType, this.fieldType, 'AuthFieldType');
+    if (this.isSignature()) {
+      return { fieldType, signature: this.signature?.toJSON() };
+    } else {
+      return { fieldType, publicKey: this.publicKey?.toJSON() };
+    }
+  }
+
+  fromJSON(json: SpendingAuthorizationFieldJSON) {
+    this.fieldType = enumFromName<AuthFieldType>(AuthFieldType, json.fieldType, 'AuthFieldType');
+    if (this.isSignature()) {
+      this.signature = MessageSignature.fromJSON(json.signature ?? '');
+    } else {
+      this.publicKey = StacksPublicKey.fromJSON(json.publicKey ?? '');
+    }
+  }
+}
+
+/**
+ * Outcome of verifying the signatures of a spending condition
+ *
+ * @param  {Boolean} valid - true if the condition is fully and correctly signed
+ * @param  {String} nextSigHash - the sighash following this condition's signatures
+ * @param  {StacksPublicKey[]} publicKeys - the condition's public keys, recovered from the
+ *                                          signatures where signed
+ * @param  {Number} fieldIndex - the signature that could not be recovered, if any
+ * @param  {String} error - the reason verification failed
+ */
+export interface SpendingConditionVerification {
+  valid: boolean;
+  nextSigHash: string;
+  publicKeys: StacksPublicKey[];
+  fieldIndex?: number;
+  error?: string;
+}
+
+/**
+ * JSON representation of a {@link SpendingCondition}. The signer is the hex encoded hash of the
+ * signer's public keys, since the address version is not part of the spending condition.
+ * Single sig conditions carry pubKeyEncoding and signature, multisig conditions authFields and
+ * signaturesRequired.
+ */
+export interface SpendingConditionJSON {
+  addressHashMode: string;
+  signer: string;
+  nonce: string;
+  feeRate: string;
+  pubKeyEncoding?: string;
+  signature?: string;
+  authFields?: SpendingAuthorizationFieldJSON[];
+  signaturesRequired?: number;
 }
 
-export class SpendingCondition extends StacksMessage {
+export class SpendingCondition extends StacksMessage<SpendingConditionJSON> {
   addressHashMode?: AddressHashMode;
   signerAddress?: Address;
   nonce?: BigNum;
   feeRate?: BigNum;
   pubKeyEncoding?: PubKeyEncoding;
   signature: MessageSignature;
+  authFields: LengthPrefixedList<SpendingAuthorizationField>;
   signaturesRequired?: number;
 
   constructor(
@@ -92,6 +400,7 @@ export class SpendingCondition extends StacksMessage {
         : PubKeyEncoding.Uncompressed;
     }
     this.signature = MessageSignature.empty();
+    this.authFields = new LengthPrefixedList<SpendingAuthorizationField>();
   }
 
   singleSig(): boolean {
@@ -110,6 +419,7 @@ export class SpendingCondition extends StacksMessage {
     cleared.nonce = new BigNum(0);
     cleared.feeRate = new BigNum(0);
     cleared.signature = MessageSignature.empty();
+    cleared.authFields = new LengthPrefixedList<SpendingAuthorizationField>();
     return cleared;
   }
 
@@ -142,7 +452,7 @@ export class SpendingCondition extends StacksMessage {
 
   static makeSigHashPostSign(
     curSigHash: string,
-    publicKey: StacksPublicKey,
+    pubKeyEncoding: PubKeyEncoding,
     signature: MessageSignature
   ): string {
     // new hash combines the previous hash and all the new data this signature will add.  This
@@ -150,17 +460,15 @@ export class SpendingCondition extends StacksMessage {
     // * the public key compression flag
     // * the signature
     const hashLength = 32 + 1 + RECOVERABLE_ECDSA_SIG_LENGTH_BYTES;
-    const pubKeyEncoding = publicKey.compressed()
-      ? PubKeyEncoding.Compressed
-      : PubKeyEncoding.Uncompressed;
 
-    const sigHash = curSigHash + pubKeyEncoding + signature.toString();
+    const sigHash =
+      curSigHash + Buffer.from([pubKeyEncoding]).toString('hex') + signature.toString();
 
-    if (Buffer.from(sigHash, 'hex').byteLength > hashLength) {
+    if (Buffer.from(sigHash, 'hex').byteLength !== hashLength) {
       throw Error('Invalid signature hash length');
     }
 
-    return new sha512_256().update(sigHash).digest('hex');
+    return txidFromData(Buffer.from(sigHash, 'hex'));
   }
 
   static nextSignature(
@@ -175,8 +483,10 @@ export class SpendingCondition extends StacksMessage {
   } {
     const sigHashPreSign = this.makeSigHashPreSign(curSigHash, authType, feeRate, nonce);
     const signature = privateKey.sign(sigHashPreSign);
-    const publicKey = privateKey.getPublicKey();
-    const nextSigHash = this.makeSigHashPostSign(sigHashPreSign, publicKey, signature);
+    const pubKeyEncoding = privateKey.getPublicKey().compressed()
+      ? PubKeyEncoding.Compressed
+      : PubKeyEncoding.Uncompressed;
+    const nextSigHash = this.makeSigHashPostSign(sigHashPreSign, pubKeyEncoding, signature);
 
     return {
       nextSig: signature,
@@ -184,8 +494,218 @@ export class SpendingCondition extends StacksMessage {
     };
   }
 
+  /**
+   * Recomputes the sighash that follows the signatures already present in this condition,
+   * starting from curSigHash. Signers appending to a condition continue from the result.
+   */
+  replaySigHash(curSigHash: string, authType: AuthType): string {
+    if (this.feeRate === undefined) {
+      throw new Error('"feeRate" is undefined');
+    }
+    if (this.nonce === undefined) {
+      throw new Error('"nonce" is undefined');
+    }
+
+    if (this.singleSig()) {
+      if (this.numSignatures() === 0) {
+        return curSigHash;
+      }
+      if (this.pubKeyEncoding === undefined) {
+        throw new Error('"pubKeyEncoding" is undefined');
+      }
+      const sigHashPreSign = SpendingCondition.makeSigHashPreSign(
+        curSigHash,
+        authType,
+        this.feeRate,
+        this.nonce
+      );
+      return SpendingCondition.makeSigHashPostSign(
+        sigHashPreSign,
+        this.pubKeyEncoding,
+        this.signature
+      );
+    }
+
+    let sigHash = curSigHash;
+    for (let index = 0; index < this.authFields.length; index++) {
+      const field: SpendingAuthorizationField = this.authFields[index];
+      if (field.isSignature()) {
+        if (field.signature === undefined) {
+          throw new Error('"signature" is undefined');
+        }
+        const sigHashPreSign = SpendingCondition.makeSigHashPreSign(
+          sigHash,
+          authType,
+          this.feeRate,
+          this.nonce
+        );
+        sigHash = SpendingCondition.makeSigHashPostSign(
+          sigHashPreSign,
+          field.pubKeyEncoding(),
+          field.signature
+        );
+      }
+    }
+    return sigHash;
+  }
+
+  /**
+   * Verifies the signatures of this condition, starting the sighash chain at curSigHash.
+   *
+   * The public key of every signature is recovered and the resulting keys must hash to the
+   * signer address, with exactly the required number of signatures present.
+   */
+  verify(curSigHash: string, authType: AuthType): SpendingConditionVerification {
+    if (this.addressHashMode === undefined) {
+      throw new Error('"addressHashMode" is undefined');
+    }
+    if (this.signerAddress === undefined) {
+      throw new Error('"signerAddress" is undefined');
+    }
+    if (this.feeRate === undefined) {
+      throw new Error('"feeRate" is undefined');
+    }
+    if (this.nonce === undefined) {
+      throw new Error('"nonce" is undefined');
+    }
+    if (this.signaturesRequired === undefined) {
+      throw new Error('"signaturesRequired" is undefined');
+    }
+
+    const nextSigHash = this.replaySigHash(curSigHash, authType);
+    const publicKeys: StacksPublicKey[] = [];
+    const result = (error?: string, fieldIndex?: number): SpendingConditionVerification => ({
+      valid: error === undefined,
+      nextSigHash,
+      publicKeys,
+      fieldIndex,
+      error,
+    });
+
+    let fields: SpendingAuthorizationField[] = this.authFields;
+    if (this.singleSig()) {
+      if (this.pubKeyEncoding === undefined) {
+        throw new Error('"pubKeyEncoding" is undefined');
+      }
+      if (this.numSignatures() === 0) {
+        return result('Missing signature');
+      }
+      fields = [SpendingAuthorizationField.fromSignature(this.signature, this.pubKeyEncoding)];
+    }
+
+    let sigHash = curSigHash;
+    let numSignatures = 0;
+    for (let index = 0; index < fields.length; index++) {
+      const field = fields[index];
+      if (!field.isSignature()) {
+        if (field.publicKey === undefined) {
+          throw new Error('"publicKey" is undefined');
+        }
+        publicKeys.push(field.publicKey);
+        continue;
+      }
+      if (field.signature === undefined) {
+        throw new Error('"signature" is undefined');
+      }
+      const sigHashPreSign = SpendingCondition.makeSigHashPreSign(
+        sigHash,
+        authType,
+        this.feeRate,
+        this.nonce
+      );
+      try {
+        publicKeys.push(
+          StacksPublicKey.fromSignature(sigHashPreSign, field.signature, field.pubKeyEncoding())
+        );
+      } catch (e) {
+        return result(`Cannot recover public key from signature: ${e.message}`, index);
+      }
+      sigHash = SpendingCondition.makeSigHashPostSign(
+        sigHashPreSign,
+        field.pubKeyEncoding(),
+        field.signature
+      );
+      numSignatures += 1;
+    }
+
+    if (numSignatures !== this.signaturesRequired) {
+      return result(
+        `Expected ${this.signaturesRequired} signatures, found ${numSignatures.toString()}`
+      );
+    }
+
+    let addressData: string | undefined;
+    try {
+      addressData = Address.fromPublicKeys(
+        0,
+        this.addressHashMode,
+        this.signaturesRequired,
+        publicKeys
+      ).data;
+    } catch (e) {
+      return result(e.message);
+    }
+    if (addressData !== this.signerAddress.data) {
+      return result('Public keys do not match the signer address');
+    }
+
+    return result();
+  }
+
+  /**
+   * Finds the public key field of a multisig condition that the given key signs for.
+   *
+   * Signatures are chained in field order, so a key can only sign while no key after it has.
+   */
+  signerFieldIndex(publicKey: StacksPublicKey): number {
+    const signerKey = publicKey.toCompressed().toString();
+    let index = -1;
+    for (let i = 0; i < this.authFields.length; i++) {
+      const field: SpendingAuthorizationField = this.authFields[i];
+      if (field.isSignature()) {
+        if (index >= 0) {
+          throw new Error('Signatures must be appended in the order of the public keys');
+        }
+      } else if (field.publicKey?.toCompressed().toString() === signerKey) {
+        index = i;
+      }
+    }
+    if (index < 0) {
+      throw new Error('Signing key does not match an unsigned public key of the condition');
+    }
+    return index;
+  }
+
+  /**
+   * Checks that the given key can sign this condition: for a single sig condition, that it
+   * hashes to the signer address, and for a multisig condition, see {@link signerFieldIndex}.
+   */
+  checkSigner(publicKey: StacksPublicKey) {
+    if (!this.singleSig()) {
+      this.signerFieldIndex(publicKey);
+      return;
+    }
+    if (this.addressHashMode === undefined) {
+      throw new Error('"addressHashMode" is undefined');
+    }
+    if (this.signerAddress === undefined) {
+      throw new Error('"signerAddress" is undefined');
+    }
+    const signerAddress = Address.fromPublicKeys(0, this.addressHashMode, 1, [publicKey]);
+    if (signerAddress.data !== this.signerAddress.data) {
+      throw new Error('Signing key does not match the signer address of the condition');
+    }
+  }
+
   numSignatures(): number {
-    return 0;
+    if (this.singleSig()) {
+      return this.signature.toString() === MessageSignature.empty().toString() ? 0 : 1;
+    }
+    return this.authFields.reduce(
+      (count: number, field: SpendingAuthorizationField) =>
+        field.isSignature() ? count + 1 : count,
+      0
+    );
   }
 
   serialize(): Buffer {
@@ -224,31 +744,85 @@ export class SpendingCondition extends StacksMessage {
       this.addressHashMode === AddressHashMode.SerializeP2SH ||
       this.addressHashMode === AddressHashMode.SerializeP2WSH
     ) {
-      // TODO
+      if (this.signaturesRequired === undefined) {
+        throw new Error('"signaturesRequired" is undefined');
+      }
+      bufferArray.push(this.authFields.serialize());
+      const signaturesRequired = Buffer.alloc(2);
+      signaturesRequired.writeUInt16BE(this.signaturesRequired, 0);
+      bufferArray.push(signaturesRequired);
     }
 
     return bufferArray.concatBuffer();
   }
 
   deserialize(bufferReader: BufferReader) {
-    this.addressHashMode = bufferReader.readByte() as AddressHashMode;
+    this.addressHashMode = bufferReader.readEnum<AddressHashMode>(
+      AddressHashMode,
+      'AddressHashMode'
+    );
     const signerPubKeyHash = bufferReader.read(20).toString('hex');
     this.signerAddress = Address.fromData(0, signerPubKeyHash);
-    this.nonce = new BigNum(bufferReader.read(8).toString('hex'), 16);
-    this.feeRate = new BigNum(bufferReader.read(8).toString('hex'), 16);
+    this.nonce = bufferReader.readUInt64BE();
+    this.feeRate = bufferReader.readUInt64BE();
 
     if (
       this.addressHashMode === AddressHashMode.SerializeP2PKH ||
       this.addressHashMode === AddressHashMode.SerializeP2WPKH
     ) {
-      this.pubKeyEncoding = bufferReader.readByte() as PubKeyEncoding;
+      this.pubKeyEncoding = bufferReader.readEnum<PubKeyEncoding>(PubKeyEncoding, 'PubKeyEncoding');
       this.signature = MessageSignature.deserialize(bufferReader);
+      this.signaturesRequired = 1;
     } else if (
       this.addressHashMode === AddressHashMode.SerializeP2SH ||
       this.addressHashMode === AddressHashMode.SerializeP2WSH
     ) {
-      throw new Error('not implemented');
-      // TODO
+      this.authFields = LengthPrefixedList.deserialize(bufferReader, SpendingAuthorizationField);
+      this.signaturesRequired = bufferReader.readUInt16BE();
+    }
+  }
+
+  toJSON(): SpendingConditionJSON {
+    const json: SpendingConditionJSON = {
+      addressHashMode: enumToName(AddressHashMode, this.addressHashMode, 'AddressHashMode'),
+      signer: this.signerAddress?.data ?? '',
+      nonce: this.nonce?.toString(10) ?? '',
+      feeRate: this.feeRate?.toString(10) ?? '',
+    };
+    if (this.singleSig()) {
+      json.pubKeyEncoding = enumToName(PubKeyEncoding, this.pubKeyEncoding, 'PubKeyEncoding');
+      json.signature = this.signature.toJSON();
+    } else {
+      json.authFields = this.authFields.toJSON();
+      json.signaturesRequired = this.signaturesRequired;
+    }
+    return json;
+  }
+
+  fromJSON(json: SpendingConditionJSON) {
+    this.addressHashMode = enumFromName<AddressHashMode>(
+      AddressHashMode,
+      json.addressHashMode,
+      'AddressHashMode'
+    );
+    this.signerAddress = Address.fromData(0, json.signer);
+    this.nonce = bigNumFromDecimal(json.nonce, 'nonce');
+    this.feeRate = bigNumFromDecimal(json.feeRate, 'feeRate');
+
+    if (this.singleSig()) {
+      this.pubKeyEncoding = enumFromName<PubKeyEncoding>(
+        PubKeyEncoding,
+        json.pubKeyEncoding ?? '',
+        'PubKeyEncoding'
+      );
+      this.signature = MessageSignature.fromJSON(json.signature ?? '');
+      this.signaturesRequired = 1;
+    } else {
+      this.authFields = LengthPrefixedList.fromJSON(
+        json.authFields ?? [],
+        SpendingAuthorizationField
+      );
+      this.signaturesRequired = json.signaturesRequired;
     }
   }
 }
@@ -264,30 +838,87 @@ export class SingleSigSpendingCondition extends SpendingCondition {
     this.signaturesRequired = 1;
   }
 
-  numSignatures(): number {
-    return this.signature.toString() === MessageSignature.empty().toString() ? 0 : 1;
+  /**
+   * The placeholder sponsor condition a sponsored transaction is signed with by its origin:
+   * a P2PKH condition with an all-zero signer, zero nonce and fee, and no signature.
+   */
+  static initialSigHash(): SingleSigSpendingCondition {
+    const spendingCondition = new this(
+      AddressHashMode.SerializeP2PKH,
+      undefined,
+      new BigNum(0),
+      new BigNum(0)
+    );
+    spendingCondition.signerAddress = Address.fromData(0, '00'.repeat(20));
+    spendingCondition.pubKeyEncoding = PubKeyEncoding.Compressed;
+    return spendingCondition;
   }
 }
 
 export class MultiSigSpendingCondition extends SpendingCondition {
-  // TODO
+  constructor(
+    addressHashMode?: AddressHashMode,
+    pubKeys?: string[],
+    signaturesRequired?: number,
+    nonce?: BigNum,
+    feeRate?: BigNum
+  ) {
+    super(addressHashMode, undefined, nonce, feeRate);
+    this.signaturesRequired = signaturesRequired;
+    if (addressHashMode !== undefined && pubKeys && signaturesRequired !== undefined) {
+      const publicKeys = pubKeys.map(pubKey => new StacksPublicKey(pubKey));
+      this.signerAddress = Address.fromPublicKeys(
+        0,
+        addressHashMode,
+        signaturesRequired,
+        publicKeys
+      );
+      // every signer starts out as a public key entry, in the order used to derive the address
+      publicKeys.forEach(publicKey => {
+        this.authFields.push(SpendingAuthorizationField.fromPublicKey(publicKey));
+      });
+    }
+  }
+}
+
+export interface AuthorizationJSON {
+  authType: string;
+  spendingCondition?: SpendingConditionJSON;
+  sponsorSpendingCondition?: SpendingConditionJSON;
 }
 
-export class Authorization extends StacksMessage {
+export class Authorization extends StacksMessage<AuthorizationJSON> {
   authType?: AuthType;
   spendingCondition?: SpendingCondition;
+  sponsorSpendingCondition?: SpendingCondition;
 
-  constructor(authType?: AuthType, spendingConditions?: SpendingCondition) {
+  constructor(
+    authType?: AuthType,
+    spendingConditions?: SpendingCondition,
+    sponsorSpendingCondition?: SpendingCondition
+  ) {
     super();
     this.authType = authType;
     this.spendingCondition = spendingConditions;
+    this.sponsorSpendingCondition = sponsorSpendingCondition;
+  }
+
+  setSponsor(sponsorSpendingCondition: SpendingCondition) {
+    if (this.authType !== AuthType.Sponsored) {
+      throw new Error('Cannot set sponsor on a non-sponsored authorization');
+    }
+    this.sponsorSpendingCondition = sponsorSpendingCondition;
   }
 
   intoInitialSighashAuth(): Authorization {
     if (this.authType === AuthType.Standard) {
       return new Authorization(AuthType.Standard, this.spendingCondition?.clear());
     } else {
-      return new Authorization(AuthType.Sponsored, this.spendingCondition?.clear());
+      return new Authorization(
+        AuthType.Sponsored,
+        this.spendingCondition?.clear(),
+        SingleSigSpendingCondition.initialSigHash()
+      );
     }
   }
 
@@ -306,7 +937,14 @@ export class Authorization extends StacksMessage {
         bufferArray.push(this.spendingCondition.serialize());
         break;
       case AuthType.Sponsored:
-        // TODO
+        if (this.spendingCondition === undefined) {
+          throw new Error('"spendingCondition" is undefined');
+        }
+        if (this.sponsorSpendingCondition === undefined) {
+          throw new Error('"sponsorSpendingCondition" is undefined');
+        }
+        bufferArray.push(this.spendingCondition.serialize());
+        bufferArray.push(this.sponsorSpendingCondition.serialize());
         break;
     }
 
@@ -314,17 +952,43 @@ export class Authorization extends StacksMessage {
   }
 
   deserialize(bufferReader: BufferReader) {
-    this.authType = bufferReader.readByte() as AuthType;
+    this.authType = bufferReader.readEnum<AuthType>(AuthType, 'AuthType');
 
     switch (this.authType) {
       case AuthType.Standard:
         this.spendingCondition = SpendingCondition.deserialize(bufferReader);
         break;
       case AuthType.Sponsored:
-        // TODO
+        this.spendingCondition = SpendingCondition.deserialize(bufferReader);
+        this.sponsorSpendingCondition = SpendingCondition.deserialize(bufferReader);
         break;
     }
   }
+
+  toJSON(): AuthorizationJSON {
+    const json: AuthorizationJSON = {
+      authType: enumToName(AuthType, this.authType, 'AuthType'),
+      spendingCondition: this.spendingCondition?.toJSON(),
+    };
+    if (this.authType === AuthType.Sponsored) {
+      json.sponsorSpendingCondition = this.sponsorSpendingCondition?.toJSON();
+    }
+    return json;
+  }
+
+  fromJSON(json: AuthorizationJSON) {
+    this.authType = enumFromName<AuthType>(AuthType, json.authType, 'AuthType');
+    if (json.spendingCondition === undefined) {
+      throw new Error('"spendingCondition" is undefined');
+    }
+    this.spendingCondition = SpendingCondition.fromJSON(json.spendingCondition);
+    if (this.authType === AuthType.Sponsored) {
+      if (json.sponsorSpendingCondition === undefined) {
+        throw new Error('"sponsorSpendingCondition" is undefined');
+      }
+      this.sponsorSpendingCondition = SpendingCondition.fromJSON(json.sponsorSpendingCondition);
+    }
+  }
 }
 
 export class StandardAuthorization extends Authorization {
@@ -334,7 +998,14 @@ export class StandardAuthorization extends Authorization {
 }
 
 export class SponsoredAuthorization extends Authorization {
-  constructor(spendingCondition: SpendingCondition) {
-    super(AuthType.Sponsored, spendingCondition);
+  constructor(
+    originSpendingCondition: SpendingCondition,
+    sponsorSpendingCondition?: SpendingCondition
+  ) {
+    super(
+      AuthType.Sponsored,
+      originSpendingCondition,
+      sponsorSpendingCondition ?? SingleSigSpendingCondition.initialSigHash()
+    );
   }
 }
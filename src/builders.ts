@@ -2,9 +2,15 @@ import { StacksTransaction } from './transaction';
 
 import { TokenTransferPayload, SmartContractPayload, ContractCallPayload } from './payload';
 
-import { SingleSigSpendingCondition, StandardAuthorization } from './authorization';
+import {
+  SpendingCondition,
+  SingleSigSpendingCondition,
+  MultiSigSpendingCondition,
+  StandardAuthorization,
+  SponsoredAuthorization,
+} from './authorization';
 
-import { StacksPrivateKey } from './keys';
+import { StacksPrivateKey, StacksPublicKey, MessageSigner } from './keys';
 
 import { TransactionSigner } from './signer';
 
@@ -18,13 +24,23 @@ import {
 import {
   TransactionVersion,
   AddressHashMode,
+  PostConditionMode,
   FungibleConditionCode,
   NonFungibleConditionCode,
+  AssetType,
 } from './constants';
 
-import { StandardPrincipal, ContractPrincipal, AssetInfo } from './types';
+import {
+  Principal,
+  StandardPrincipal,
+  ContractPrincipal,
+  OriginPrincipal,
+  AssetInfo,
+} from './types';
+
+import { ClarityType, ClarityValue } from './clarity';
 
-import { ClarityValue } from './clarity';
+import { ClarityAbi, getAbiFunction, validateFunctionArgs } from './abi';
 
 import * as BigNum from 'bn.js';
 
@@ -37,6 +53,10 @@ import * as BigNum from 'bn.js';
  *                          34 bytes
  * @param  {PostCondition[]} postConditions - an array of post conditions to add to the
  *                                                  transaction
+ * @param  {PostConditionMode} postConditionMode - whether asset transfers not covered by the
+ *                                          post conditions are allowed, defaults to deny
+ * @param  {Boolean} sponsored - true if another account is going to pay the transaction fee,
+ *                               see {@link sponsorTransaction}
  *
  * @return {StacksTransaction}
  */
@@ -45,48 +65,101 @@ export interface TokenTransferOptions {
   version?: TransactionVersion;
   memo?: string;
   postConditions?: PostCondition[];
+  postConditionMode?: PostConditionMode;
+  sponsored?: boolean;
 }
 
 /**
- * Generates a Stacks token transfer transaction
+ * Multisig transaction sender
  *
- * Returns a signed Stacks token transfer transaction.
+ * @param  {String[]} publicKeys - hex string public keys of the signers, in the order used to
+ *                                 derive the multisig address
+ * @param  {Number} signaturesRequired - number of signatures required to spend
+ * @param  {AddressHashMode} addressHashMode - P2SH or P2WSH, defaults to P2SH
+ */
+export interface MultiSigSender {
+  publicKeys: string[];
+  signaturesRequired: number;
+  addressHashMode?: AddressHashMode;
+}
+
+function createSpendingCondition(
+  sender: string | MultiSigSender,
+  nonce: BigNum,
+  feeRate: BigNum
+): SpendingCondition {
+  if (typeof sender === 'string') {
+    return new SingleSigSpendingCondition(AddressHashMode.SerializeP2PKH, sender, nonce, feeRate);
+  }
+  return new MultiSigSpendingCondition(
+    sender.addressHashMode ?? AddressHashMode.SerializeP2SH,
+    sender.publicKeys,
+    sender.signaturesRequired,
+    nonce,
+    feeRate
+  );
+}
+
+function createAuthorization(spendingCondition: SpendingCondition, sponsored: boolean) {
+  return sponsored
+    ? new SponsoredAuthorization(spendingCondition)
+    : new StandardAuthorization(spendingCondition);
+}
+
+function createSponsorSpendingCondition(
+  publicKey: StacksPublicKey,
+  feeRate: BigNum,
+  options?: SponsorOptions
+): SpendingCondition {
+  const defaultOptions = {
+    nonce: new BigNum(0),
+  };
+
+  const normalizedOptions = Object.assign(defaultOptions, options);
+
+  return new SingleSigSpendingCondition(
+    AddressHashMode.SerializeP2PKH,
+    publicKey.toString(),
+    normalizedOptions.nonce,
+    feeRate
+  );
+}
+
+/**
+ * Generates an unsigned Stacks token transfer transaction
+ *
+ * Returns an unsigned Stacks token transfer transaction, to be signed with a
+ * {@link TransactionSigner}.
  *
  * @param  {String} recipientAddress - the c32check address of the recipient
  * @param  {BigNum} amount - number of tokens to transfer in microstacks
  * @param  {BigNum} feeRate - transaction fee rate in microstacks
- * @param  {String} senderKey - hex string sender private key used to sign transaction
+ * @param  {String | MultiSigSender} sender - hex string sender public key, or the public keys
+ *                                            and signature threshold of a multisig sender
  * @param  {TokenTransferOptions} options - an options object for the token transfer
  *
  * @return {StacksTransaction}
  */
-export function makeSTXTokenTransfer(
+export function makeUnsignedSTXTokenTransfer(
   recipientAddress: string,
   amount: BigNum,
   feeRate: BigNum,
-  senderKey: string,
+  sender: string | MultiSigSender,
   options?: TokenTransferOptions
 ): StacksTransaction {
   const defaultOptions = {
     nonce: new BigNum(0),
     version: TransactionVersion.Mainnet,
     memo: '',
+    sponsored: false,
   };
 
   const normalizedOptions = Object.assign(defaultOptions, options);
 
   const payload = new TokenTransferPayload(recipientAddress, amount, normalizedOptions.memo);
 
-  const addressHashMode = AddressHashMode.SerializeP2PKH;
-  const privKey = new StacksPrivateKey(senderKey);
-  const pubKey = privKey.getPublicKey();
-  const spendingCondition = new SingleSigSpendingCondition(
-    addressHashMode,
-    pubKey.toString(),
-    normalizedOptions.nonce,
-    feeRate
-  );
-  const authorization = new StandardAuthorization(spendingCondition);
+  const spendingCondition = createSpendingCondition(sender, normalizedOptions.nonce, feeRate);
+  const authorization = createAuthorization(spendingCondition, normalizedOptions.sponsored);
 
   const transaction = new StacksTransaction(normalizedOptions.version, authorization, payload);
 
@@ -96,12 +169,80 @@ export function makeSTXTokenTransfer(
     });
   }
 
+  if (normalizedOptions.postConditionMode !== undefined) {
+    transaction.postConditionMode = normalizedOptions.postConditionMode;
+  }
+
+  return transaction;
+}
+
+/**
+ * Generates a Stacks token transfer transaction
+ *
+ * Returns a signed Stacks token transfer transaction.
+ *
+ * @param  {String} recipientAddress - the c32check address of the recipient
+ * @param  {BigNum} amount - number of tokens to transfer in microstacks
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {String} senderKey - hex string sender private key used to sign transaction
+ * @param  {TokenTransferOptions} options - an options object for the token transfer
+ *
+ * @return {StacksTransaction}
+ */
+export function makeSTXTokenTransfer(
+  recipientAddress: string,
+  amount: BigNum,
+  feeRate: BigNum,
+  senderKey: string,
+  options?: TokenTransferOptions
+): StacksTransaction {
+  const privKey = new StacksPrivateKey(senderKey);
+  const transaction = makeUnsignedSTXTokenTransfer(
+    recipientAddress,
+    amount,
+    feeRate,
+    privKey.getPublicKey().toString(),
+    options
+  );
+
   const signer = new TransactionSigner(transaction);
   signer.signOrigin(privKey);
 
   return transaction;
 }
 
+/**
+ * Generates a Stacks token transfer transaction signed by an external signer
+ *
+ * @param  {String} recipientAddress - the c32check address of the recipient
+ * @param  {BigNum} amount - number of tokens to transfer in microstacks
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {MessageSigner} signer - the signer of the sender, e.g. backed by an HSM or KMS
+ * @param  {TokenTransferOptions} options - an options object for the token transfer
+ *
+ * @return {Promise<StacksTransaction>}
+ */
+export async function makeSTXTokenTransferWithSigner(
+  recipientAddress: string,
+  amount: BigNum,
+  feeRate: BigNum,
+  signer: MessageSigner,
+  options?: TokenTransferOptions
+): Promise<StacksTransaction> {
+  const publicKey = await signer.getPublicKey();
+  const transaction = makeUnsignedSTXTokenTransfer(
+    recipientAddress,
+    amount,
+    feeRate,
+    publicKey.toString(),
+    options
+  );
+
+  await new TransactionSigner(transaction).signOriginWith(signer);
+
+  return transaction;
+}
+
 /**
  * Contract deploy transaction options
  *
@@ -109,6 +250,10 @@ export function makeSTXTokenTransfer(
  * @param  {TransactionVersion} version - can be set to mainnet or testnet
  * @param  {PostCondition[]} postConditions - an array of post conditions to add to the
  *                                                  transaction
+ * @param  {PostConditionMode} postConditionMode - whether asset transfers not covered by the
+ *                                          post conditions are allowed, defaults to deny
+ * @param  {Boolean} sponsored - true if another account is going to pay the transaction fee,
+ *                               see {@link sponsorTransaction}
  *
  * @return {StacksTransaction}
  */
@@ -116,46 +261,44 @@ export interface ContractDeployOptions {
   nonce?: BigNum;
   version?: TransactionVersion;
   postConditions?: PostCondition[];
+  postConditionMode?: PostConditionMode;
+  sponsored?: boolean;
 }
 
 /**
- * Generates a Clarity smart contract deploy transaction
+ * Generates an unsigned Clarity smart contract deploy transaction
  *
- * Returns a signed Stacks smart contract deploy transaction.
+ * Returns an unsigned Stacks smart contract deploy transaction, to be signed with a
+ * {@link TransactionSigner}.
  *
  * @param  {String} contractName - the contract name
  * @param  {String} codeBody - the code body string
  * @param  {BigNum} feeRate - transaction fee rate in microstacks
- * @param  {String} senderKey - hex string sender private key used to sign transaction
+ * @param  {String | MultiSigSender} sender - hex string sender public key, or the public keys
+ *                                            and signature threshold of a multisig sender
+ * @param  {ContractDeployOptions} options - an options object for the contract deploy
  *
  * @return {StacksTransaction}
  */
-export function makeSmartContractDeploy(
+export function makeUnsignedSmartContractDeploy(
   contractName: string,
   codeBody: string,
   feeRate: BigNum,
-  senderKey: string,
+  sender: string | MultiSigSender,
   options?: ContractDeployOptions
 ): StacksTransaction {
   const defaultOptions = {
     nonce: new BigNum(0),
     version: TransactionVersion.Mainnet,
+    sponsored: false,
   };
 
   const normalizedOptions = Object.assign(defaultOptions, options);
 
   const payload = new SmartContractPayload(contractName, codeBody);
 
-  const addressHashMode = AddressHashMode.SerializeP2PKH;
-  const privKey = new StacksPrivateKey(senderKey);
-  const pubKey = privKey.getPublicKey();
-  const spendingCondition = new SingleSigSpendingCondition(
-    addressHashMode,
-    pubKey.toString(),
-    normalizedOptions.nonce,
-    feeRate
-  );
-  const authorization = new StandardAuthorization(spendingCondition);
+  const spendingCondition = createSpendingCondition(sender, normalizedOptions.nonce, feeRate);
+  const authorization = createAuthorization(spendingCondition, normalizedOptions.sponsored);
 
   const transaction = new StacksTransaction(normalizedOptions.version, authorization, payload);
 
@@ -165,12 +308,79 @@ export function makeSmartContractDeploy(
     });
   }
 
+  if (normalizedOptions.postConditionMode !== undefined) {
+    transaction.postConditionMode = normalizedOptions.postConditionMode;
+  }
+
+  return transaction;
+}
+
+/**
+ * Generates a Clarity smart contract deploy transaction
+ *
+ * Returns a signed Stacks smart contract deploy transaction.
+ *
+ * @param  {String} contractName - the contract name
+ * @param  {String} codeBody - the code body string
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {String} senderKey - hex string sender private key used to sign transaction
+ *
+ * @return {StacksTransaction}
+ */
+export function makeSmartContractDeploy(
+  contractName: string,
+  codeBody: string,
+  feeRate: BigNum,
+  senderKey: string,
+  options?: ContractDeployOptions
+): StacksTransaction {
+  const privKey = new StacksPrivateKey(senderKey);
+  const transaction = makeUnsignedSmartContractDeploy(
+    contractName,
+    codeBody,
+    feeRate,
+    privKey.getPublicKey().toString(),
+    options
+  );
+
   const signer = new TransactionSigner(transaction);
   signer.signOrigin(privKey);
 
   return transaction;
 }
 
+/**
+ * Generates a Clarity smart contract deploy transaction signed by an external signer
+ *
+ * @param  {String} contractName - the contract name
+ * @param  {String} codeBody - the code body string
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {MessageSigner} signer - the signer of the sender, e.g. backed by an HSM or KMS
+ * @param  {ContractDeployOptions} options - an options object for the contract deploy
+ *
+ * @return {Promise<StacksTransaction>}
+ */
+export async function makeSmartContractDeployWithSigner(
+  contractName: string,
+  codeBody: string,
+  feeRate: BigNum,
+  signer: MessageSigner,
+  options?: ContractDeployOptions
+): Promise<StacksTransaction> {
+  const publicKey = await signer.getPublicKey();
+  const transaction = makeUnsignedSmartContractDeploy(
+    contractName,
+    codeBody,
+    feeRate,
+    publicKey.toString(),
+    options
+  );
+
+  await new TransactionSigner(transaction).signOriginWith(signer);
+
+  return transaction;
+}
+
 /**
  * Contract function call transaction options
  *
@@ -178,6 +388,12 @@ export function makeSmartContractDeploy(
  * @param  {TransactionVersion} version - can be set to mainnet or testnet
  * @param  {PostCondition[]} postConditions - an array of post conditions to add to the
  *                                                  transaction
+ * @param  {PostConditionMode} postConditionMode - whether asset transfers not covered by the
+ *                                          post conditions are allowed, defaults to deny
+ * @param  {Boolean} sponsored - true if another account is going to pay the transaction fee,
+ *                               see {@link sponsorTransaction}
+ * @param  {ClarityAbi} abi - the interface of the contract, to check that the function is
+ *                            public and the arguments have the types it expects
  *
  * @return {StacksTransaction}
  */
@@ -185,40 +401,53 @@ export interface ContractCallOptions {
   nonce?: BigNum;
   version?: TransactionVersion;
   postConditions?: PostCondition[];
+  postConditionMode?: PostConditionMode;
+  sponsored?: boolean;
+  abi?: ClarityAbi;
 }
 
 /**
- * Generates a Clarity smart contract function call transaction
+ * Generates an unsigned Clarity smart contract function call transaction
  *
- * Returns a signed Stacks smart contract deploy transaction.
+ * Returns an unsigned Stacks smart contract function call transaction, to be signed with a
+ * {@link TransactionSigner}.
  *
  * @param  {String} contractAddress - the c32check address of the contract
  * @param  {String} contractName - the contract name
  * @param  {String} functionName - name of the function to be called
  * @param  {[ClarityValue]} functionArgs - an array of Clarity values as arguments to the function call
  * @param  {BigNum} feeRate - transaction fee rate in microstacks
- * @param  {BigNum} nonce - a nonce must be increased monotonically with each new transaction
- * @param  {String} senderKey - hex string sender private key used to sign transaction
- * @param  {TransactionVersion} version - can be set to mainnet or testnet
+ * @param  {String | MultiSigSender} sender - hex string sender public key, or the public keys
+ *                                            and signature threshold of a multisig sender
+ * @param  {ContractCallOptions} options - an options object for the contract call
  *
  * @return {StacksTransaction}
  */
-export function makeContractCall(
+export function makeUnsignedContractCall(
   contractAddress: string,
   contractName: string,
   functionName: string,
   functionArgs: ClarityValue[],
   feeRate: BigNum,
-  senderKey: string,
+  sender: string | MultiSigSender,
   options?: ContractCallOptions
 ): StacksTransaction {
   const defaultOptions = {
     nonce: new BigNum(0),
     version: TransactionVersion.Mainnet,
+    sponsored: false,
   };
 
   const normalizedOptions = Object.assign(defaultOptions, options);
 
+  if (normalizedOptions.abi !== undefined) {
+    const fn = getAbiFunction(normalizedOptions.abi, functionName);
+    if (fn.access !== 'public') {
+      throw new Error(`"${functionName}" is not a public function`);
+    }
+    validateFunctionArgs(fn, functionArgs);
+  }
+
   const payload = new ContractCallPayload(
     contractAddress,
     contractName,
@@ -226,16 +455,8 @@ export function makeContractCall(
     functionArgs
   );
 
-  const addressHashMode = AddressHashMode.SerializeP2PKH;
-  const privKey = new StacksPrivateKey(senderKey);
-  const pubKey = privKey.getPublicKey();
-  const spendingCondition = new SingleSigSpendingCondition(
-    addressHashMode,
-    pubKey.toString(),
-    normalizedOptions.nonce,
-    feeRate
-  );
-  const authorization = new StandardAuthorization(spendingCondition);
+  const spendingCondition = createSpendingCondition(sender, normalizedOptions.nonce, feeRate);
+  const authorization = createAuthorization(spendingCondition, normalizedOptions.sponsored);
 
   const transaction = new StacksTransaction(normalizedOptions.version, authorization, payload);
 
@@ -245,12 +466,384 @@ export function makeContractCall(
     });
   }
 
+  if (normalizedOptions.postConditionMode !== undefined) {
+    transaction.postConditionMode = normalizedOptions.postConditionMode;
+  }
+
+  return transaction;
+}
+
+/**
+ * Generates a Clarity smart contract function call transaction
+ *
+ * Returns a signed Stacks smart contract deploy transaction.
+ *
+ * @param  {String} contractAddress - the c32check address of the contract
+ * @param  {String} contractName - the contract name
+ * @param  {String} functionName - name of the function to be called
+ * @param  {[ClarityValue]} functionArgs - an array of Clarity values as arguments to the function call
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {BigNum} nonce - a nonce must be increased monotonically with each new transaction
+ * @param  {String} senderKey - hex string sender private key used to sign transaction
+ * @param  {TransactionVersion} version - can be set to mainnet or testnet
+ *
+ * @return {StacksTransaction}
+ */
+export function makeContractCall(
+  contractAddress: string,
+  contractName: string,
+  functionName: string,
+  functionArgs: ClarityValue[],
+  feeRate: BigNum,
+  senderKey: string,
+  options?: ContractCallOptions
+): StacksTransaction {
+  const privKey = new StacksPrivateKey(senderKey);
+  const transaction = makeUnsignedContractCall(
+    contractAddress,
+    contractName,
+    functionName,
+    functionArgs,
+    feeRate,
+    privKey.getPublicKey().toString(),
+    options
+  );
+
   const signer = new TransactionSigner(transaction);
   signer.signOrigin(privKey);
 
   return transaction;
 }
 
+/**
+ * Generates a Clarity smart contract function call transaction signed by an external signer
+ *
+ * @param  {String} contractAddress - the c32check address of the contract
+ * @param  {String} contractName - the contract name
+ * @param  {String} functionName - name of the function to be called
+ * @param  {[ClarityValue]} functionArgs - an array of Clarity values as arguments to the function call
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {MessageSigner} signer - the signer of the sender, e.g. backed by an HSM or KMS
+ * @param  {ContractCallOptions} options - an options object for the contract call
+ *
+ * @return {Promise<StacksTransaction>}
+ */
+export async function makeContractCallWithSigner(
+  contractAddress: string,
+  contractName: string,
+  functionName: string,
+  functionArgs: ClarityValue[],
+  feeRate: BigNum,
+  signer: MessageSigner,
+  options?: ContractCallOptions
+): Promise<StacksTransaction> {
+  const publicKey = await signer.getPublicKey();
+  const transaction = makeUnsignedContractCall(
+    contractAddress,
+    contractName,
+    functionName,
+    functionArgs,
+    feeRate,
+    publicKey.toString(),
+    options
+  );
+
+  await new TransactionSigner(transaction).signOriginWith(signer);
+
+  return transaction;
+}
+
+/**
+ * Generates a Stacks token transfer transaction with strict post conditions
+ *
+ * Returns a signed Stacks token transfer transaction in deny mode, with a post condition that
+ * the origin sends exactly the amount transferred, see
+ * {@link deriveSTXTokenTransferPostConditions}. Post conditions in the options are added after it.
+ *
+ * @param  {String} recipientAddress - the c32check address of the recipient
+ * @param  {BigNum} amount - number of tokens to transfer in microstacks
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {String} senderKey - hex string sender private key used to sign transaction
+ * @param  {TokenTransferOptions} options - an options object for the token transfer
+ *
+ * @return {StacksTransaction}
+ */
+export function makeStrictSTXTokenTransfer(
+  recipientAddress: string,
+  amount: BigNum,
+  feeRate: BigNum,
+  senderKey: string,
+  options?: TokenTransferOptions
+): StacksTransaction {
+  return makeSTXTokenTransfer(
+    recipientAddress,
+    amount,
+    feeRate,
+    senderKey,
+    strictSTXTokenTransferOptions(amount, options)
+  );
+}
+
+/**
+ * Generates an unsigned Stacks token transfer transaction with strict post conditions, see
+ * {@link makeStrictSTXTokenTransfer}
+ *
+ * @param  {String} recipientAddress - the c32check address of the recipient
+ * @param  {BigNum} amount - number of tokens to transfer in microstacks
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {String | MultiSigSender} sender - hex string sender public key, or the public keys
+ *                                            and signature threshold of a multisig sender
+ * @param  {TokenTransferOptions} options - an options object for the token transfer
+ *
+ * @return {StacksTransaction}
+ */
+export function makeUnsignedStrictSTXTokenTransfer(
+  recipientAddress: string,
+  amount: BigNum,
+  feeRate: BigNum,
+  sender: string | MultiSigSender,
+  options?: TokenTransferOptions
+): StacksTransaction {
+  return makeUnsignedSTXTokenTransfer(
+    recipientAddress,
+    amount,
+    feeRate,
+    sender,
+    strictSTXTokenTransferOptions(amount, options)
+  );
+}
+
+/**
+ * Generates a Stacks token transfer transaction with strict post conditions, signed by an
+ * external signer, see {@link makeStrictSTXTokenTransfer}
+ *
+ * @param  {String} recipientAddress - the c32check address of the recipient
+ * @param  {BigNum} amount - number of tokens to transfer in microstacks
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {MessageSigner} signer - the signer of the sender, e.g. backed by an HSM or KMS
+ * @param  {TokenTransferOptions} options - an options object for the token transfer
+ *
+ * @return {Promise<StacksTransaction>}
+ */
+export function makeStrictSTXTokenTransferWithSigner(
+  recipientAddress: string,
+  amount: BigNum,
+  feeRate: BigNum,
+  signer: MessageSigner,
+  options?: TokenTransferOptions
+): Promise<StacksTransaction> {
+  return makeSTXTokenTransferWithSigner(
+    recipientAddress,
+    amount,
+    feeRate,
+    signer,
+    strictSTXTokenTransferOptions(amount, options)
+  );
+}
+
+function strictSTXTokenTransferOptions(
+  amount: BigNum,
+  options?: TokenTransferOptions
+): TokenTransferOptions {
+  return {
+    ...options,
+    postConditions: [
+      ...deriveSTXTokenTransferPostConditions(amount),
+      ...(options?.postConditions ?? []),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+  };
+}
+
+/**
+ * Generates a call to the transfer function of a SIP-style token contract with strict post
+ * conditions
+ *
+ * Returns a signed call of (transfer amount-or-id sender recipient ...) on the contract that
+ * defines the asset, in deny mode, with post conditions derived from the function arguments,
+ * see {@link deriveFungibleTransferPostConditions} and
+ * {@link deriveNonFungibleTransferPostConditions}. Post conditions in the options are added
+ * after them.
+ *
+ * @param  {AssetType} assetType - whether the contract transfers a fungible or non-fungible token
+ * @param  {AssetInfo} assetInfo - the asset, whose contract is called
+ * @param  {[ClarityValue]} functionArgs - the arguments of the transfer function
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {String} senderKey - hex string sender private key used to sign transaction
+ * @param  {ContractCallOptions} options - an options object for the contract call
+ *
+ * @return {StacksTransaction}
+ */
+export function makeStrictTransferContractCall(
+  assetType: AssetType.Fungible | AssetType.NonFungible,
+  assetInfo: AssetInfo,
+  functionArgs: ClarityValue[],
+  feeRate: BigNum,
+  senderKey: string,
+  options?: ContractCallOptions
+): StacksTransaction {
+  return makeContractCall(
+    assetInfo.address.toString(),
+    assetInfo.contractName.toString(),
+    'transfer',
+    functionArgs,
+    feeRate,
+    senderKey,
+    strictTransferContractCallOptions(assetType, assetInfo, functionArgs, options)
+  );
+}
+
+/**
+ * Generates an unsigned call to the transfer function of a SIP-style token contract with strict
+ * post conditions, see {@link makeStrictTransferContractCall}
+ *
+ * @param  {AssetType} assetType - whether the contract transfers a fungible or non-fungible token
+ * @param  {AssetInfo} assetInfo - the asset, whose contract is called
+ * @param  {[ClarityValue]} functionArgs - the arguments of the transfer function
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {String | MultiSigSender} sender - hex string sender public key, or the public keys
+ *                                            and signature threshold of a multisig sender
+ * @param  {ContractCallOptions} options - an options object for the contract call
+ *
+ * @return {StacksTransaction}
+ */
+export function makeUnsignedStrictTransferContractCall(
+  assetType: AssetType.Fungible | AssetType.NonFungible,
+  assetInfo: AssetInfo,
+  functionArgs: ClarityValue[],
+  feeRate: BigNum,
+  sender: string | MultiSigSender,
+  options?: ContractCallOptions
+): StacksTransaction {
+  return makeUnsignedContractCall(
+    assetInfo.address.toString(),
+    assetInfo.contractName.toString(),
+    'transfer',
+    functionArgs,
+    feeRate,
+    sender,
+    strictTransferContractCallOptions(assetType, assetInfo, functionArgs, options)
+  );
+}
+
+/**
+ * Generates a call to the transfer function of a SIP-style token contract with strict post
+ * conditions, signed by an external signer, see {@link makeStrictTransferContractCall}
+ *
+ * @param  {AssetType} assetType - whether the contract transfers a fungible or non-fungible token
+ * @param  {AssetInfo} assetInfo - the asset, whose contract is called
+ * @param  {[ClarityValue]} functionArgs - the arguments of the transfer function
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks
+ * @param  {MessageSigner} signer - the signer of the sender, e.g. backed by an HSM or KMS
+ * @param  {ContractCallOptions} options - an options object for the contract call
+ *
+ * @return {Promise<StacksTransaction>}
+ */
+export function makeStrictTransferContractCallWithSigner(
+  assetType: AssetType.Fungible | AssetType.NonFungible,
+  assetInfo: AssetInfo,
+  functionArgs: ClarityValue[],
+  feeRate: BigNum,
+  signer: MessageSigner,
+  options?: ContractCallOptions
+): Promise<StacksTransaction> {
+  return makeContractCallWithSigner(
+    assetInfo.address.toString(),
+    assetInfo.contractName.toString(),
+    'transfer',
+    functionArgs,
+    feeRate,
+    signer,
+    strictTransferContractCallOptions(assetType, assetInfo, functionArgs, options)
+  );
+}
+
+function strictTransferContractCallOptions(
+  assetType: AssetType.Fungible | AssetType.NonFungible,
+  assetInfo: AssetInfo,
+  functionArgs: ClarityValue[],
+  options?: ContractCallOptions
+): ContractCallOptions {
+  const postConditions =
+    assetType === AssetType.Fungible
+      ? deriveFungibleTransferPostConditions(assetInfo, functionArgs)
+      : deriveNonFungibleTransferPostConditions(assetInfo, functionArgs);
+  return {
+    ...options,
+    postConditions: [...postConditions, ...(options?.postConditions ?? [])],
+    postConditionMode: PostConditionMode.Deny,
+  };
+}
+
+/**
+ * Transaction sponsorship options
+ *
+ * @param  {BigNum} nonce - the nonce of the sponsor account
+ */
+export interface SponsorOptions {
+  nonce?: BigNum;
+}
+
+/**
+ * Sponsors a transaction that has been signed by its origin
+ *
+ * Returns a copy of the transaction with the sponsor spending condition set and signed. The
+ * origin's signatures are left untouched, since the sponsor is not covered by them.
+ *
+ * @param  {StacksTransaction} transaction - a sponsored transaction signed by its origin
+ * @param  {String} sponsorKey - hex string sponsor private key used to sign transaction
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks, paid by the sponsor
+ * @param  {SponsorOptions} options - an options object for the sponsorship
+ *
+ * @return {StacksTransaction}
+ */
+export function sponsorTransaction(
+  transaction: StacksTransaction,
+  sponsorKey: string,
+  feeRate: BigNum,
+  options?: SponsorOptions
+): StacksTransaction {
+  const privKey = new StacksPrivateKey(sponsorKey);
+  const sponsorSpendingCondition = createSponsorSpendingCondition(
+    privKey.getPublicKey(),
+    feeRate,
+    options
+  );
+
+  const signer = TransactionSigner.createSponsorSigner(transaction, sponsorSpendingCondition);
+  signer.signSponsor(privKey);
+
+  return signer.transaction;
+}
+
+/**
+ * Sponsors a transaction that has been signed by its origin, using an external signer
+ *
+ * @param  {StacksTransaction} transaction - a sponsored transaction signed by its origin
+ * @param  {MessageSigner} sponsorSigner - the signer of the sponsor, e.g. backed by an HSM or KMS
+ * @param  {BigNum} feeRate - transaction fee rate in microstacks, paid by the sponsor
+ * @param  {SponsorOptions} options - an options object for the sponsorship
+ *
+ * @return {Promise<StacksTransaction>}
+ */
+export async function sponsorTransactionWithSigner(
+  transaction: StacksTransaction,
+  sponsorSigner: MessageSigner,
+  feeRate: BigNum,
+  options?: SponsorOptions
+): Promise<StacksTransaction> {
+  const sponsorSpendingCondition = createSponsorSpendingCondition(
+    await sponsorSigner.getPublicKey(),
+    feeRate,
+    options
+  );
+
+  const signer = TransactionSigner.createSponsorSigner(transaction, sponsorSpendingCondition);
+  await signer.signSponsorWith(sponsorSigner);
+
+  return signer.transaction;
+}
+
 /**
  * Generates a STX post condition with a standard principal
  *
@@ -291,6 +884,23 @@ export function makeContractSTXPostCondition(
   return new STXPostCondition(new ContractPrincipal(address, contractName), conditionCode, amount);
 }
 
+/**
+ * Generates a STX post condition with the origin principal
+ *
+ * Returns a STX post condition object
+ *
+ * @param  {FungibleConditionCode} conditionCode - the condition code
+ * @param  {BigNum} amount - the amount of STX tokens
+ *
+ * @return {STXPostCondition}
+ */
+export function makeOriginSTXPostCondition(
+  conditionCode: FungibleConditionCode,
+  amount: BigNum
+): STXPostCondition {
+  return new STXPostCondition(new OriginPrincipal(), conditionCode, amount);
+}
+
 /**
  * Generates a fungible token post condition with a standard principal
  *
@@ -345,6 +955,25 @@ export function makeContractFungiblePostCondition(
   );
 }
 
+/**
+ * Generates a fungible token post condition with the origin principal
+ *
+ * Returns a fungible token post condition object
+ *
+ * @param  {FungibleConditionCode} conditionCode - the condition code
+ * @param  {BigNum} amount - the amount of fungible tokens
+ * @param  {AssetInfo} assetInfo - asset info describing the fungible token
+ *
+ * @return {FungiblePostCondition}
+ */
+export function makeOriginFungiblePostCondition(
+  conditionCode: FungibleConditionCode,
+  amount: BigNum,
+  assetInfo: AssetInfo
+): FungiblePostCondition {
+  return new FungiblePostCondition(new OriginPrincipal(), conditionCode, amount, assetInfo);
+}
+
 /**
  * Generates a non-fungible token post condition with a standard principal
  *
@@ -353,6 +982,7 @@ export function makeContractFungiblePostCondition(
  * @param  {String} address - the c32check address
  * @param  {FungibleConditionCode} conditionCode - the condition code
  * @param  {AssetInfo} assetInfo - asset info describing the non-fungible token
+ * @param  {ClarityValue} assetName - the Clarity value identifying the non-fungible token
  *
  * @return {NonFungiblePostCondition}
  */
@@ -360,7 +990,7 @@ export function makeStandardNonFungiblePostCondition(
   address: string,
   conditionCode: NonFungibleConditionCode,
   assetInfo: AssetInfo,
-  assetName: string
+  assetName: ClarityValue
 ): NonFungiblePostCondition {
   return new NonFungiblePostCondition(
     new StandardPrincipal(address),
@@ -379,6 +1009,7 @@ export function makeStandardNonFungiblePostCondition(
  * @param  {String} contractName - the name of the contract
  * @param  {FungibleConditionCode} conditionCode - the condition code
  * @param  {AssetInfo} assetInfo - asset info describing the non-fungible token
+ * @param  {ClarityValue} assetName - the Clarity value identifying the non-fungible token
  *
  * @return {NonFungiblePostCondition}
  */
@@ -387,7 +1018,7 @@ export function makeContractNonFungiblePostCondition(
   contractName: string,
   conditionCode: NonFungibleConditionCode,
   assetInfo: AssetInfo,
-  assetName: string
+  assetName: ClarityValue
 ): NonFungiblePostCondition {
   return new NonFungiblePostCondition(
     new ContractPrincipal(address, contractName),
@@ -396,3 +1027,104 @@ export function makeContractNonFungiblePostCondition(
     assetName
   );
 }
+
+/**
+ * Generates a non-fungible token post condition with the origin principal
+ *
+ * Returns a non-fungible token post condition object
+ *
+ * @param  {NonFungibleConditionCode} conditionCode - the condition code
+ * @param  {AssetInfo} assetInfo - asset info describing the non-fungible token
+ * @param  {ClarityValue} assetName - the Clarity value identifying the non-fungible token
+ *
+ * @return {NonFungiblePostCondition}
+ */
+export function makeOriginNonFungiblePostCondition(
+  conditionCode: NonFungibleConditionCode,
+  assetInfo: AssetInfo,
+  assetName: ClarityValue
+): NonFungiblePostCondition {
+  return new NonFungiblePostCondition(new OriginPrincipal(), conditionCode, assetInfo, assetName);
+}
+
+/**
+ * Derives the post conditions of a STX token transfer
+ *
+ * Returns a post condition that the origin sends exactly the amount transferred.
+ *
+ * @param  {BigNum} amount - number of tokens to transfer in microstacks
+ *
+ * @return {PostCondition[]}
+ */
+export function deriveSTXTokenTransferPostConditions(amount: BigNum): PostCondition[] {
+  return [makeOriginSTXPostCondition(FungibleConditionCode.Equal, amount)];
+}
+
+/**
+ * Derives the post conditions of a call to a SIP-style fungible token transfer function,
+ * (transfer (amount uint) (sender principal) (recipient principal) ...)
+ *
+ * Returns a post condition that the sender sends exactly the amount of the token.
+ *
+ * @param  {AssetInfo} assetInfo - asset info describing the fungible token
+ * @param  {[ClarityValue]} functionArgs - the arguments of the transfer function
+ *
+ * @return {PostCondition[]}
+ */
+export function deriveFungibleTransferPostConditions(
+  assetInfo: AssetInfo,
+  functionArgs: ClarityValue[]
+): PostCondition[] {
+  const [amount, sender] = functionArgs;
+  if (amount?.type !== ClarityType.UInt) {
+    throw new Error('Expected a uint amount as the first transfer argument');
+  }
+  return [
+    new FungiblePostCondition(
+      transferSenderPrincipal(sender),
+      FungibleConditionCode.Equal,
+      amount.value,
+      assetInfo
+    ),
+  ];
+}
+
+/**
+ * Derives the post conditions of a call to a SIP-style non-fungible token transfer function,
+ * (transfer (id uint) (sender principal) (recipient principal) ...)
+ *
+ * Returns a post condition that the sender no longer owns the token.
+ *
+ * @param  {AssetInfo} assetInfo - asset info describing the non-fungible token
+ * @param  {[ClarityValue]} functionArgs - the arguments of the transfer function
+ *
+ * @return {PostCondition[]}
+ */
+export function deriveNonFungibleTransferPostConditions(
+  assetInfo: AssetInfo,
+  functionArgs: ClarityValue[]
+): PostCondition[] {
+  const [assetName, sender] = functionArgs;
+  if (assetName === undefined) {
+    throw new Error('Expected a token identifier as the first transfer argument');
+  }
+  return [
+    new NonFungiblePostCondition(
+      transferSenderPrincipal(sender),
+      NonFungibleConditionCode.DoesNotOwn,
+      assetInfo,
+      assetName
+    ),
+  ];
+}
+
+function transferSenderPrincipal(sender: ClarityValue | undefined): Principal {
+  switch (sender?.type) {
+    case ClarityType.PrincipalStandard:
+      return new StandardPrincipal(sender.address.toString());
+    case ClarityType.PrincipalContract:
+      return new ContractPrincipal(sender.address.toString(), sender.contractName.toString());
+    default:
+      throw new Error('Expected a principal sender as the second transfer argument');
+  }
+}
@@ -10,6 +10,8 @@ import {
   ResponseOkCV,
   ListCV,
   TupleCV,
+  StringAsciiCV,
+  StringUtf8CV,
 } from '.';
 
 /**
@@ -30,6 +32,8 @@ export enum ClarityType {
   OptionalSome = '0a',
   List = '0b',
   Tuple = '0c',
+  StringASCII = '0d',
+  StringUTF8 = '0e',
 }
 
 export type ClarityValue =
@@ -43,4 +47,6 @@ export type ClarityValue =
   | ResponseErrorCV
   | ResponseOkCV
   | ListCV
-  | TupleCV;
+  | TupleCV
+  | StringAsciiCV
+  | StringUtf8CV;
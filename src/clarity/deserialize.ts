@@ -1,5 +1,5 @@
 import { BufferReader } from '../utils';
-import { LengthPrefixedString, Address } from '..';
+import { LengthPrefixedString, Address } from '../types';
 import {
   ClarityType,
   ClarityValue,
@@ -16,6 +16,8 @@ import {
   someCV,
   listCV,
   tupleCV,
+  stringAsciiCV,
+  stringUtf8CV,
 } from '.';
 
 export default function deserializeCV(buffer: BufferReader | Buffer): ClarityValue {
@@ -30,8 +32,7 @@ export default function deserializeCV(buffer: BufferReader | Buffer): ClarityVal
       return uintCV(bufferReader.read(16));
 
     case ClarityType.Buffer:
-      const bufferLength = bufferReader.read(4).readUInt32BE(0);
-      return bufferCV(bufferReader.read(bufferLength));
+      return bufferCV(bufferReader.readVarBytes());
 
     case ClarityType.BoolTrue:
       return trueCV();
@@ -61,7 +62,7 @@ export default function deserializeCV(buffer: BufferReader | Buffer): ClarityVal
       return someCV(deserializeCV(bufferReader));
 
     case ClarityType.List:
-      const listLength = bufferReader.read(4).readUInt32BE(0);
+      const listLength = bufferReader.readUInt32BE();
       const listContents: ClarityValue[] = [];
       for (let i = 0; i < listLength; i++) {
         listContents.push(deserializeCV(bufferReader));
@@ -69,7 +70,7 @@ export default function deserializeCV(buffer: BufferReader | Buffer): ClarityVal
       return listCV(listContents);
 
     case ClarityType.Tuple:
-      const tupleLength = bufferReader.read(4).readUInt32BE(0);
+      const tupleLength = bufferReader.readUInt32BE();
       const tupleContents: { [key: string]: ClarityValue } = {};
       for (let i = 0; i < tupleLength; i++) {
         const clarityName = LengthPrefixedString.deserialize(bufferReader).content;
@@ -80,6 +81,17 @@ export default function deserializeCV(buffer: BufferReader | Buffer): ClarityVal
       }
       return tupleCV(tupleContents);
 
+    case ClarityType.StringASCII:
+      return stringAsciiCV(bufferReader.readVarBytes().toString('latin1'));
+
+    case ClarityType.StringUTF8:
+      const utf8Bytes = bufferReader.readVarBytes();
+      const utf8String = utf8Bytes.toString('utf8');
+      if (!Buffer.from(utf8String, 'utf8').equals(utf8Bytes)) {
+        throw new Error('Invalid UTF-8 in clarity utf8 string');
+      }
+      return stringUtf8CV(utf8String);
+
     default:
       throw new Error(
         'Unable to deserialize Clarity Value from buffer. Could not find valid Clarity Type.'
@@ -20,8 +20,19 @@ import {
 } from './types/principalCV';
 import { ListCV, listCV } from './types/listCV';
 import { TupleCV, tupleCV } from './types/tupleCV';
+import { StringAsciiCV, StringUtf8CV, stringAsciiCV, stringUtf8CV } from './types/stringCV';
 import { serializeCV } from './serialize';
 import deserializeCV from './deserialize';
+import { ClarityValueJSON, cvToJSON, cvFromJSON } from './json';
+import { parseCV } from './parse';
+import { cvToString } from './print';
+import {
+  ClarityTypeSignature,
+  TypeMismatch,
+  inferSignature,
+  checkCV,
+  signatureToString,
+} from './signature';
 
 // Types
 export {
@@ -41,6 +52,11 @@ export {
   ContractPrincipalCV,
   ListCV,
   TupleCV,
+  StringAsciiCV,
+  StringUtf8CV,
+  ClarityValueJSON,
+  ClarityTypeSignature,
+  TypeMismatch,
 };
 
 // Value construction functions
@@ -60,7 +76,18 @@ export {
   contractPrincipalCVFromAddress,
   listCV,
   tupleCV,
+  stringAsciiCV,
+  stringUtf8CV,
 };
 
 // Serialization
 export { serializeCV, deserializeCV };
+
+// JSON
+export { cvToJSON, cvFromJSON };
+
+// Parsing and printing
+export { parseCV, cvToString };
+
+// Type signatures
+export { inferSignature, checkCV, signatureToString };
@@ -0,0 +1,175 @@
+import { Address, LengthPrefixedString } from '../types';
+import { CLARITY_INT_SIZE } from '../constants';
+import { bigNumFromDecimal, isClarityInt } from '../utils';
+import {
+  ClarityType,
+  ClarityValue,
+  intCV,
+  uintCV,
+  bufferCV,
+  trueCV,
+  falseCV,
+  standardPrincipalCVFromAddress,
+  contractPrincipalCVFromAddress,
+  responseOkCV,
+  responseErrorCV,
+  noneCV,
+  someCV,
+  listCV,
+  tupleCV,
+  stringAsciiCV,
+  stringUtf8CV,
+} from '.';
+import * as BigNum from 'bn.js';
+
+/**
+ * JSON representation of a Clarity value. The type is the name of its {@link ClarityType},
+ * integers are decimal strings, buffers are hex strings, principals are c32 addresses and strings
+ * are given as is.
+ */
+export interface ClarityValueJSON {
+  type: string;
+  value?: string | ClarityValueJSON | ClarityValueJSON[] | { [key: string]: ClarityValueJSON };
+  address?: string;
+  contractName?: string;
+}
+
+function clarityTypeName(type: ClarityType): string {
+  const name = Object.keys(ClarityType).find(
+    key => ClarityType[key as keyof typeof ClarityType] === type
+  );
+  if (name === undefined) {
+    throw new Error(`Invalid ClarityType ${type}`);
+  }
+  return name;
+}
+
+export function cvToJSON(cv: ClarityValue): ClarityValueJSON {
+  const type = clarityTypeName(cv.type);
+  switch (cv.type) {
+    case ClarityType.Int:
+      return { type, value: cv.value.fromTwos(CLARITY_INT_SIZE).toString(10) };
+    case ClarityType.UInt:
+      return { type, value: cv.value.toString(10) };
+    case ClarityType.Buffer:
+      return { type, value: cv.buffer.toString('hex') };
+    case ClarityType.BoolTrue:
+    case ClarityType.BoolFalse:
+    case ClarityType.OptionalNone:
+      return { type };
+    case ClarityType.PrincipalStandard:
+      return { type, address: cv.address.toJSON() };
+    case ClarityType.PrincipalContract:
+      return { type, address: cv.address.toJSON(), contractName: cv.contractName.toJSON() };
+    case ClarityType.ResponseOk:
+    case ClarityType.ResponseErr:
+    case ClarityType.OptionalSome:
+      return { type, value: cvToJSON(cv.value) };
+    case ClarityType.List:
+      return { type, value: cv.list.map(cvToJSON) };
+    case ClarityType.Tuple:
+      const data: { [key: string]: ClarityValueJSON } = {};
+      Object.keys(cv.data).forEach(key => {
+        data[key] = cvToJSON(cv.data[key]);
+      });
+      return { type, value: data };
+    case ClarityType.StringASCII:
+    case ClarityType.StringUTF8:
+      return { type, value: cv.data };
+  }
+}
+
+function jsonValue(json: ClarityValueJSON): NonNullable<ClarityValueJSON['value']> {
+  if (json.value === undefined) {
+    throw new Error('"value" is undefined');
+  }
+  return json.value;
+}
+
+function stringValue(json: ClarityValueJSON): string {
+  const value = jsonValue(json);
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${json.type} value, expected a string`);
+  }
+  return value;
+}
+
+function objectValue(json: ClarityValueJSON): object {
+  const value = jsonValue(json);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid ${json.type} value, expected an object`);
+  }
+  return value;
+}
+
+function intValue(json: ClarityValueJSON): string {
+  const value = stringValue(json);
+  if (!/^-?[0-9]+$/.test(value) || !isClarityInt(new BigNum(value, 10))) {
+    throw new Error(`Invalid Int "${value}"`);
+  }
+  return value;
+}
+
+function addressValue(json: ClarityValueJSON): Address {
+  if (json.address === undefined) {
+    throw new Error('"address" is undefined');
+  }
+  return Address.fromJSON(json.address);
+}
+
+export function cvFromJSON(json: ClarityValueJSON): ClarityValue {
+  const type = ClarityType[json.type as keyof typeof ClarityType];
+  switch (type) {
+    case ClarityType.Int:
+      return intCV(intValue(json));
+    case ClarityType.UInt:
+      return uintCV(bigNumFromDecimal(stringValue(json), 'UInt').toString(10));
+    case ClarityType.Buffer:
+      const hex = stringValue(json);
+      if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+        throw new Error(`Invalid Buffer "${hex}"`);
+      }
+      return bufferCV(Buffer.from(hex, 'hex'));
+    case ClarityType.BoolTrue:
+      return trueCV();
+    case ClarityType.BoolFalse:
+      return falseCV();
+    case ClarityType.PrincipalStandard:
+      return standardPrincipalCVFromAddress(addressValue(json));
+    case ClarityType.PrincipalContract:
+      if (json.contractName === undefined) {
+        throw new Error('"contractName" is undefined');
+      }
+      return contractPrincipalCVFromAddress(
+        addressValue(json),
+        LengthPrefixedString.fromJSON(json.contractName)
+      );
+    case ClarityType.ResponseOk:
+      return responseOkCV(cvFromJSON(objectValue(json) as ClarityValueJSON));
+    case ClarityType.ResponseErr:
+      return responseErrorCV(cvFromJSON(objectValue(json) as ClarityValueJSON));
+    case ClarityType.OptionalNone:
+      return noneCV();
+    case ClarityType.OptionalSome:
+      return someCV(cvFromJSON(objectValue(json) as ClarityValueJSON));
+    case ClarityType.List:
+      const list = jsonValue(json);
+      if (!Array.isArray(list)) {
+        throw new Error('Invalid List value, expected an array');
+      }
+      return listCV(list.map(cvFromJSON));
+    case ClarityType.Tuple:
+      const value = objectValue(json) as { [key: string]: ClarityValueJSON };
+      const data: { [key: string]: ClarityValue } = {};
+      Object.keys(value).forEach(key => {
+        data[key] = cvFromJSON(value[key]);
+      });
+      return tupleCV(data);
+    case ClarityType.StringASCII:
+      return stringAsciiCV(stringValue(json));
+    case ClarityType.StringUTF8:
+      return stringUtf8CV(stringValue(json));
+    default:
+      throw new Error(`Invalid ClarityType "${json.type}"`);
+  }
+}
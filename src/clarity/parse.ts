@@ -0,0 +1,302 @@
+import { ClarityParseError } from '../errors';
+import { isClarityInt, isClarityName, isContractName } from '../utils';
+import {
+  ClarityValue,
+  intCV,
+  uintCV,
+  bufferCV,
+  trueCV,
+  falseCV,
+  standardPrincipalCV,
+  contractPrincipalCV,
+  responseOkCV,
+  responseErrorCV,
+  noneCV,
+  someCV,
+  listCV,
+  tupleCV,
+  stringAsciiCV,
+  stringUtf8CV,
+} from '.';
+import { c32addressDecode } from 'c32check';
+import * as BigNum from 'bn.js';
+
+const STRING_ESCAPES: { [key: string]: string } = {
+  '"': '"',
+  '\\': '\\',
+  n: '\n',
+  t: '\t',
+  r: '\r',
+};
+
+/**
+ * Parses a Clarity literal, e.g. `(tuple (name "alice") (age u30))`, into a Clarity value.
+ *
+ * Supports integers (`-1`), unsigned integers (`u1`), buffers (`0xdeadbeef`), ASCII strings
+ * (`"text"`), UTF-8 strings (`u"caf\u{e9}"`), booleans, principals (`'SP...` or
+ * `'SP....contract`), `none`, and the `some`, `ok`, `err`, `list` and `tuple` expressions.
+ * Whitespace and `;;` comments are ignored.
+ *
+ * @param  {String} source - the Clarity literal
+ *
+ * @return {ClarityValue}
+ * @throws {ClarityParseError} if the source is not a valid literal
+ */
+export function parseCV(source: string): ClarityValue {
+  const parser = new ClarityParser(source);
+  const value = parser.parseValue();
+  parser.expectEnd();
+  return value;
+}
+
+class ClarityParser {
+  source: string;
+  index: number;
+
+  constructor(source: string) {
+    this.source = source;
+    this.index = 0;
+  }
+
+  parseValue(): ClarityValue {
+    this.skipWhitespace();
+    const start = this.index;
+    const char = this.source[this.index];
+    if (char === undefined) {
+      throw this.error('Unexpected end of input', start);
+    }
+    if (char === '(') {
+      return this.parseExpression();
+    }
+    if (char === ')') {
+      throw this.error('Unexpected ")"', start);
+    }
+    if (char === '"') {
+      const ascii = this.parseString();
+      try {
+        return stringAsciiCV(ascii);
+      } catch (e) {
+        throw this.error('Invalid ASCII string, use u"..." for UTF-8', start);
+      }
+    }
+    if (char === 'u' && this.source[this.index + 1] === '"') {
+      this.index++;
+      const utf8 = this.parseString();
+      try {
+        return stringUtf8CV(utf8);
+      } catch (e) {
+        throw this.error('Invalid UTF-8 string', start);
+      }
+    }
+    return this.parseAtom(this.readAtom(), start);
+  }
+
+  expectEnd() {
+    this.skipWhitespace();
+    if (this.index < this.source.length) {
+      const unexpected = this.peekAtom() || this.source[this.index];
+      throw this.error(`Unexpected "${unexpected}" after value`, this.index);
+    }
+  }
+
+  private parseExpression(): ClarityValue {
+    const start = this.index;
+    this.index++;
+    this.skipWhitespace();
+    const nameStart = this.index;
+    const name = this.readAtom();
+    switch (name) {
+      case 'list':
+        const values: ClarityValue[] = [];
+        while (!this.closeParen()) {
+          values.push(this.parseValue());
+        }
+        return listCV(values);
+      case 'tuple':
+        const data: { [key: string]: ClarityValue } = {};
+        while (!this.closeParen()) {
+          this.expectOpenParen('tuple entry');
+          const keyStart = this.index;
+          const key = this.readAtom();
+          if (!isClarityName(key)) {
+            throw this.error(`Invalid tuple key "${key}"`, keyStart);
+          }
+          if (data[key] !== undefined) {
+            throw this.error(`Duplicate tuple key "${key}"`, keyStart);
+          }
+          data[key] = this.parseValue();
+          this.expectCloseParen();
+        }
+        return tupleCV(data);
+      case 'some':
+        return someCV(this.parseSingleArgument());
+      case 'ok':
+        return responseOkCV(this.parseSingleArgument());
+      case 'err':
+        return responseErrorCV(this.parseSingleArgument());
+      case '':
+        throw this.error('Expected an expression name', start);
+      default:
+        throw this.error(`Unknown expression "${name}"`, nameStart);
+    }
+  }
+
+  private parseSingleArgument(): ClarityValue {
+    const value = this.parseValue();
+    this.expectCloseParen();
+    return value;
+  }
+
+  private parseAtom(atom: string, start: number): ClarityValue {
+    if (atom === 'true') {
+      return trueCV();
+    }
+    if (atom === 'false') {
+      return falseCV();
+    }
+    if (atom === 'none') {
+      return noneCV();
+    }
+    if (/^-?[0-9]+$/.test(atom)) {
+      if (!isClarityInt(new BigNum(atom, 10))) {
+        throw this.error(`Integer out of range "${atom}"`, start);
+      }
+      return intCV(atom);
+    }
+    if (/^u[0-9]+$/.test(atom)) {
+      return this.parseInteger(() => uintCV(atom.slice(1)), atom, start);
+    }
+    if (atom.startsWith('0x')) {
+      if (!/^0x([0-9a-fA-F]{2})*$/.test(atom)) {
+        throw this.error(`Invalid buffer "${atom}"`, start);
+      }
+      return bufferCV(Buffer.from(atom.slice(2), 'hex'));
+    }
+    if (atom.startsWith("'")) {
+      return this.parsePrincipal(atom, start);
+    }
+    throw this.error(`Unexpected "${atom || this.source[start]}"`, start);
+  }
+
+  private parseInteger(construct: () => ClarityValue, atom: string, start: number): ClarityValue {
+    try {
+      return construct();
+    } catch (e) {
+      throw this.error(`Integer out of range "${atom}"`, start);
+    }
+  }
+
+  private parsePrincipal(atom: string, start: number): ClarityValue {
+    const [address, contractName, ...rest] = atom.slice(1).split('.');
+    try {
+      c32addressDecode(address);
+    } catch (e) {
+      throw this.error(`Invalid principal "${atom}"`, start);
+    }
+    if (rest.length > 0) {
+      throw this.error(`Invalid principal "${atom}"`, start);
+    }
+    if (contractName === undefined) {
+      return standardPrincipalCV(address);
+    }
+    if (!isContractName(contractName)) {
+      throw this.error(`Invalid contract name "${contractName}"`, start + address.length + 2);
+    }
+    return contractPrincipalCV(address, contractName);
+  }
+
+  private parseString(): string {
+    const start = this.index;
+    this.index++;
+    let content = '';
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === '"') {
+        this.index++;
+        return content;
+      }
+      if (char === '\\' && this.source[this.index + 1] === 'u') {
+        content += this.parseUnicodeEscape();
+      } else if (char === '\\') {
+        const escaped = STRING_ESCAPES[this.source[this.index + 1]];
+        if (escaped === undefined) {
+          throw this.error('Invalid escape sequence', this.index);
+        }
+        content += escaped;
+        this.index += 2;
+      } else {
+        content += char;
+        this.index++;
+      }
+    }
+    throw this.error('Unterminated string', start);
+  }
+
+  private parseUnicodeEscape(): string {
+    const start = this.index;
+    const match = /^\\u\{([0-9a-fA-F]{1,6})\}/.exec(this.source.slice(this.index));
+    if (match === null || parseInt(match[1], 16) > 0x10ffff) {
+      throw this.error('Invalid escape sequence', start);
+    }
+    this.index += match[0].length;
+    return String.fromCodePoint(parseInt(match[1], 16));
+  }
+
+  private closeParen(): boolean {
+    this.skipWhitespace();
+    if (this.index >= this.source.length) {
+      throw this.error('Expected ")"', this.index);
+    }
+    if (this.source[this.index] === ')') {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectCloseParen() {
+    if (!this.closeParen()) {
+      throw this.error('Expected ")"', this.index);
+    }
+  }
+
+  private expectOpenParen(description: string) {
+    this.skipWhitespace();
+    if (this.source[this.index] !== '(') {
+      throw this.error(`Expected "(" to start ${description}`, this.index);
+    }
+    this.index++;
+    this.skipWhitespace();
+  }
+
+  private readAtom(): string {
+    const atom = this.peekAtom();
+    this.index += atom.length;
+    return atom;
+  }
+
+  private peekAtom(): string {
+    const match = /^[^\s();"]*/.exec(this.source.slice(this.index));
+    return match ? match[0] : '';
+  }
+
+  private skipWhitespace() {
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (this.source.startsWith(';;', this.index)) {
+        while (this.index < this.source.length && this.source[this.index] !== '\n') {
+          this.index++;
+        }
+      } else if (/\s/.test(char)) {
+        this.index++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private error(message: string, index: number): ClarityParseError {
+    const lines = this.source.slice(0, index).split('\n');
+    return new ClarityParseError(message, lines.length, lines[lines.length - 1].length + 1);
+  }
+}
@@ -0,0 +1,87 @@
+import { CLARITY_INT_SIZE } from '../constants';
+import { ClarityType, ClarityValue } from '.';
+
+const INDENT = '  ';
+
+const STRING_ESCAPES: { [key: string]: string } = {
+  '"': '\\"',
+  '\\': '\\\\',
+  '\n': '\\n',
+  '\t': '\\t',
+  '\r': '\\r',
+};
+
+/**
+ * Renders a Clarity value in Clarity syntax, e.g. `(tuple (age u30) (name "alice"))`.
+ * Tuple entries are in the lexicographic order used to serialize them, and the output can be
+ * read back with {@link parseCV}.
+ *
+ * @param  {ClarityValue} cv - the value to render
+ * @param  {Boolean} multiline - whether to put each list item and tuple entry on its own
+ *                               indented line
+ *
+ * @return {String}
+ */
+export function cvToString(cv: ClarityValue, multiline = false): string {
+  return printCV(cv, multiline, 0);
+}
+
+function printCV(cv: ClarityValue, multiline: boolean, depth: number): string {
+  switch (cv.type) {
+    case ClarityType.Int:
+      return cv.value.fromTwos(CLARITY_INT_SIZE).toString(10);
+    case ClarityType.UInt:
+      return `u${cv.value.toString(10)}`;
+    case ClarityType.Buffer:
+      return `0x${cv.buffer.toString('hex')}`;
+    case ClarityType.BoolTrue:
+      return 'true';
+    case ClarityType.BoolFalse:
+      return 'false';
+    case ClarityType.PrincipalStandard:
+      return `'${cv.address.toString()}`;
+    case ClarityType.PrincipalContract:
+      return `'${cv.address.toString()}.${cv.contractName.toString()}`;
+    case ClarityType.ResponseOk:
+      return `(ok ${printCV(cv.value, multiline, depth)})`;
+    case ClarityType.ResponseErr:
+      return `(err ${printCV(cv.value, multiline, depth)})`;
+    case ClarityType.OptionalNone:
+      return 'none';
+    case ClarityType.OptionalSome:
+      return `(some ${printCV(cv.value, multiline, depth)})`;
+    case ClarityType.List:
+      const items = cv.list.map(value => printCV(value, multiline, depth + 1));
+      return printExpression('list', items, multiline, depth);
+    case ClarityType.Tuple:
+      const entries = Object.keys(cv.data)
+        .sort((a, b) => Buffer.from(a).compare(Buffer.from(b)))
+        .map(key => `(${key} ${printCV(cv.data[key], multiline, depth + 1)})`);
+      return printExpression('tuple', entries, multiline, depth);
+    case ClarityType.StringASCII:
+      return `"${escapeString(cv.data)}"`;
+    case ClarityType.StringUTF8:
+      return `u"${escapeString(cv.data)}"`;
+  }
+}
+
+function escapeString(data: string): string {
+  return Array.from(data, char => {
+    if (STRING_ESCAPES[char] !== undefined) {
+      return STRING_ESCAPES[char];
+    }
+    const codePoint = char.codePointAt(0) ?? 0;
+    return codePoint < 0x20 || codePoint > 0x7e ? `\\u{${codePoint.toString(16)}}` : char;
+  }).join('');
+}
+
+function printExpression(name: string, args: string[], multiline: boolean, depth: number): string {
+  if (args.length === 0) {
+    return `(${name})`;
+  }
+  if (!multiline) {
+    return `(${name} ${args.join(' ')})`;
+  }
+  const indent = INDENT.repeat(depth + 1);
+  return `(${name}${args.map(arg => `\n${indent}${arg}`).join('')})`;
+}
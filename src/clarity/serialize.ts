@@ -10,6 +10,8 @@ import {
   ResponseCV,
   ListCV,
   TupleCV,
+  StringAsciiCV,
+  StringUtf8CV,
   ClarityType,
   ClarityValue,
 } from '.';
@@ -97,6 +99,13 @@ function serializeTupleCV(cv: TupleCV) {
   return bufferWithTypeID(cv.type, buffers.concatBuffer());
 }
 
+function serializeStringCV(cv: StringAsciiCV | StringUtf8CV, encoding: 'ascii' | 'utf8') {
+  const data = Buffer.from(cv.data, encoding);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  return bufferWithTypeID(cv.type, Buffer.concat([length, data]));
+}
+
 export function serializeCV(value: ClarityValue): Buffer {
   switch (value.type) {
     case ClarityType.BoolTrue:
@@ -121,6 +130,10 @@ export function serializeCV(value: ClarityValue): Buffer {
       return serializeListCV(value);
     case ClarityType.Tuple:
       return serializeTupleCV(value);
+    case ClarityType.StringASCII:
+      return serializeStringCV(value, 'ascii');
+    case ClarityType.StringUTF8:
+      return serializeStringCV(value, 'utf8');
     default:
       throw new Error('Unable to serialize. Invalid Clarity Value.');
   }
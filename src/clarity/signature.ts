@@ -0,0 +1,336 @@
+import { ClarityType, ClarityValue } from '.';
+
+/**
+ * The type of a Clarity value, named as in Clarity, e.g. `{ type: 'list', length: 10,
+ * entry: { type: 'int' } }` for `(list 10 int)`. The `no-type` signature is only produced by
+ * {@link inferSignature}, for parts of a value that do not determine their type, such as the
+ * inner type of `none`.
+ */
+export type ClarityTypeSignature =
+  | { type: 'int' }
+  | { type: 'uint' }
+  | { type: 'bool' }
+  | { type: 'principal' }
+  | { type: 'buff'; length: number }
+  | { type: 'string-ascii'; length: number }
+  | { type: 'string-utf8'; length: number }
+  | { type: 'optional'; value: ClarityTypeSignature }
+  | { type: 'response'; ok: ClarityTypeSignature; err: ClarityTypeSignature }
+  | { type: 'list'; entry: ClarityTypeSignature; length: number }
+  | { type: 'tuple'; fields: { [key: string]: ClarityTypeSignature } }
+  | { type: 'no-type' };
+
+/**
+ * A part of a Clarity value that does not have the expected type
+ *
+ * @param  {String} path - where the mismatch is, e.g. `value[1].name` for the name field of the
+ *                         second entry of a list
+ * @param  {String} message - what is wrong, e.g. `expected uint, found int`
+ */
+export interface TypeMismatch {
+  path: string;
+  message: string;
+}
+
+/**
+ * Renders a type signature in Clarity syntax, e.g. `(list 10 (optional uint))`
+ */
+export function signatureToString(signature: ClarityTypeSignature): string {
+  switch (signature.type) {
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8':
+      return `(${signature.type} ${signature.length})`;
+    case 'optional':
+      return `(optional ${signatureToString(signature.value)})`;
+    case 'response':
+      return `(response ${signatureToString(signature.ok)} ${signatureToString(signature.err)})`;
+    case 'list':
+      return `(list ${signature.length} ${signatureToString(signature.entry)})`;
+    case 'tuple':
+      const fields = Object.keys(signature.fields).map(
+        key => `(${key} ${signatureToString(signature.fields[key])})`
+      );
+      return `(tuple ${fields.join(' ')})`;
+    case 'no-type':
+      return 'UnknownType';
+    default:
+      return signature.type;
+  }
+}
+
+/**
+ * Infers the smallest type signature of a Clarity value: buffers, strings and lists have their
+ * actual length, and list entries are merged into a type that admits all of them.
+ *
+ * @param  {ClarityValue} cv - the value
+ *
+ * @return {ClarityTypeSignature}
+ * @throws if a list has entries of incompatible types
+ */
+export function inferSignature(cv: ClarityValue): ClarityTypeSignature {
+  const mismatches: TypeMismatch[] = [];
+  const signature = infer(cv, 'value', mismatches);
+  if (mismatches.length > 0) {
+    throw new Error(`Invalid Clarity value at ${mismatches[0].path}: ${mismatches[0].message}`);
+  }
+  return signature;
+}
+
+/**
+ * Type-checks a Clarity value the way the node would before accepting it.
+ *
+ * With a signature, checks that the value has that type, including the maximum length of
+ * buffers, strings and lists and the fields of tuples. Without one, checks that the value is
+ * well-typed on its own, i.e. that all entries of each list have compatible types.
+ *
+ * @param  {ClarityValue} value - the value to check
+ * @param  {ClarityTypeSignature} signature - the expected type
+ *
+ * @return {TypeMismatch[]} the mismatches found, empty if the value type-checks
+ */
+export function checkCV(value: ClarityValue, signature?: ClarityTypeSignature): TypeMismatch[] {
+  const mismatches: TypeMismatch[] = [];
+  if (signature === undefined) {
+    infer(value, 'value', mismatches);
+  } else {
+    check(value, signature, 'value', mismatches);
+  }
+  return mismatches;
+}
+
+function infer(cv: ClarityValue, path: string, mismatches: TypeMismatch[]): ClarityTypeSignature {
+  switch (cv.type) {
+    case ClarityType.Int:
+      return { type: 'int' };
+    case ClarityType.UInt:
+      return { type: 'uint' };
+    case ClarityType.BoolTrue:
+    case ClarityType.BoolFalse:
+      return { type: 'bool' };
+    case ClarityType.PrincipalStandard:
+    case ClarityType.PrincipalContract:
+      return { type: 'principal' };
+    case ClarityType.Buffer:
+      return { type: 'buff', length: cv.buffer.length };
+    case ClarityType.StringASCII:
+      return { type: 'string-ascii', length: cv.data.length };
+    case ClarityType.StringUTF8:
+      return { type: 'string-utf8', length: Array.from(cv.data).length };
+    case ClarityType.OptionalNone:
+      return { type: 'optional', value: { type: 'no-type' } };
+    case ClarityType.OptionalSome:
+      return { type: 'optional', value: infer(cv.value, `${path}.some`, mismatches) };
+    case ClarityType.ResponseOk:
+      return {
+        type: 'response',
+        ok: infer(cv.value, `${path}.ok`, mismatches),
+        err: { type: 'no-type' },
+      };
+    case ClarityType.ResponseErr:
+      return {
+        type: 'response',
+        ok: { type: 'no-type' },
+        err: infer(cv.value, `${path}.err`, mismatches),
+      };
+    case ClarityType.List:
+      let entry: ClarityTypeSignature = { type: 'no-type' };
+      cv.list.forEach((value, index) => {
+        const entryPath = `${path}[${index}]`;
+        const entrySignature = infer(value, entryPath, mismatches);
+        const merged = leastSupertype(entry, entrySignature);
+        if (merged === undefined) {
+          mismatches.push({
+            path: entryPath,
+            message: `list entries must have the same type, expected ${signatureToString(
+              entry
+            )}, found ${signatureToString(entrySignature)}`,
+          });
+        } else {
+          entry = merged;
+        }
+      });
+      return { type: 'list', entry, length: cv.list.length };
+    case ClarityType.Tuple:
+      const fields: { [key: string]: ClarityTypeSignature } = {};
+      Object.keys(cv.data).forEach(key => {
+        fields[key] = infer(cv.data[key], `${path}.${key}`, mismatches);
+      });
+      return { type: 'tuple', fields };
+  }
+}
+
+function leastSupertype(
+  a: ClarityTypeSignature,
+  b: ClarityTypeSignature
+): ClarityTypeSignature | undefined {
+  if (a.type === 'no-type') {
+    return b;
+  }
+  if (b.type === 'no-type') {
+    return a;
+  }
+  switch (a.type) {
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8':
+      return b.type === a.type ? { type: a.type, length: Math.max(a.length, b.length) } : undefined;
+    case 'optional':
+      if (b.type !== 'optional') {
+        return undefined;
+      }
+      const value = leastSupertype(a.value, b.value);
+      return value && { type: 'optional', value };
+    case 'response':
+      if (b.type !== 'response') {
+        return undefined;
+      }
+      const ok = leastSupertype(a.ok, b.ok);
+      const err = leastSupertype(a.err, b.err);
+      return ok && err && { type: 'response', ok, err };
+    case 'list':
+      if (b.type !== 'list') {
+        return undefined;
+      }
+      const entry = leastSupertype(a.entry, b.entry);
+      return entry && { type: 'list', entry, length: Math.max(a.length, b.length) };
+    case 'tuple':
+      if (b.type !== 'tuple') {
+        return undefined;
+      }
+      const keys = Object.keys(a.fields);
+      if (keys.length !== Object.keys(b.fields).length) {
+        return undefined;
+      }
+      const fields: { [key: string]: ClarityTypeSignature } = {};
+      for (const key of keys) {
+        const field = b.fields[key] && leastSupertype(a.fields[key], b.fields[key]);
+        if (field === undefined) {
+          return undefined;
+        }
+        fields[key] = field;
+      }
+      return { type: 'tuple', fields };
+    default:
+      return b.type === a.type ? a : undefined;
+  }
+}
+
+function check(
+  cv: ClarityValue,
+  signature: ClarityTypeSignature,
+  path: string,
+  mismatches: TypeMismatch[]
+) {
+  const mismatch = (message: string) => mismatches.push({ path, message });
+  const expected = signatureToString(signature);
+  if (!hasBaseType(cv, signature)) {
+    mismatch(`expected ${expected}, found ${valueTypeName(cv)}`);
+    return;
+  }
+  switch (cv.type) {
+    case ClarityType.Buffer:
+      if (signature.type === 'buff' && cv.buffer.length > signature.length) {
+        mismatch(`buffer of ${cv.buffer.length} bytes exceeds ${expected}`);
+      }
+      return;
+    case ClarityType.StringASCII:
+    case ClarityType.StringUTF8:
+      const length = Array.from(cv.data).length;
+      if ('length' in signature && length > signature.length) {
+        mismatch(`string of ${length} characters exceeds ${expected}`);
+      }
+      return;
+    case ClarityType.OptionalSome:
+      if (signature.type === 'optional') {
+        check(cv.value, signature.value, `${path}.some`, mismatches);
+      }
+      return;
+    case ClarityType.ResponseOk:
+      if (signature.type === 'response') {
+        check(cv.value, signature.ok, `${path}.ok`, mismatches);
+      }
+      return;
+    case ClarityType.ResponseErr:
+      if (signature.type === 'response') {
+        check(cv.value, signature.err, `${path}.err`, mismatches);
+      }
+      return;
+    case ClarityType.List:
+      if (signature.type !== 'list') {
+        return;
+      }
+      if (cv.list.length > signature.length) {
+        mismatch(`list of ${cv.list.length} entries exceeds ${expected}`);
+      }
+      cv.list.forEach((value, index) => {
+        check(value, signature.entry, `${path}[${index}]`, mismatches);
+      });
+      return;
+    case ClarityType.Tuple:
+      if (signature.type !== 'tuple') {
+        return;
+      }
+      Object.keys(signature.fields).forEach(key => {
+        if (cv.data[key] === undefined) {
+          mismatch(`missing tuple field "${key}"`);
+        } else {
+          check(cv.data[key], signature.fields[key], `${path}.${key}`, mismatches);
+        }
+      });
+      Object.keys(cv.data)
+        .filter(key => signature.fields[key] === undefined)
+        .forEach(key =>
+          mismatches.push({ path: `${path}.${key}`, message: `unexpected tuple field "${key}"` })
+        );
+      return;
+  }
+}
+
+function hasBaseType(cv: ClarityValue, signature: ClarityTypeSignature): boolean {
+  switch (signature.type) {
+    case 'bool':
+      return cv.type === ClarityType.BoolTrue || cv.type === ClarityType.BoolFalse;
+    case 'principal':
+      return cv.type === ClarityType.PrincipalStandard || cv.type === ClarityType.PrincipalContract;
+    case 'optional':
+      return cv.type === ClarityType.OptionalNone || cv.type === ClarityType.OptionalSome;
+    case 'response':
+      return cv.type === ClarityType.ResponseOk || cv.type === ClarityType.ResponseErr;
+    case 'no-type':
+      return false;
+    default:
+      return valueTypeName(cv) === signature.type;
+  }
+}
+
+function valueTypeName(cv: ClarityValue): string {
+  switch (cv.type) {
+    case ClarityType.Int:
+      return 'int';
+    case ClarityType.UInt:
+      return 'uint';
+    case ClarityType.Buffer:
+      return 'buff';
+    case ClarityType.BoolTrue:
+    case ClarityType.BoolFalse:
+      return 'bool';
+    case ClarityType.PrincipalStandard:
+    case ClarityType.PrincipalContract:
+      return 'principal';
+    case ClarityType.ResponseOk:
+    case ClarityType.ResponseErr:
+      return 'response';
+    case ClarityType.OptionalNone:
+    case ClarityType.OptionalSome:
+      return 'optional';
+    case ClarityType.List:
+      return 'list';
+    case ClarityType.Tuple:
+      return 'tuple';
+    case ClarityType.StringASCII:
+      return 'string-ascii';
+    case ClarityType.StringUTF8:
+      return 'string-utf8';
+  }
+}
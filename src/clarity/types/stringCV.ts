@@ -0,0 +1,39 @@
+import { ClarityType } from '../clarityValue';
+
+interface StringAsciiCV {
+  readonly type: ClarityType.StringASCII;
+  readonly data: string;
+}
+
+interface StringUtf8CV {
+  readonly type: ClarityType.StringUTF8;
+  readonly data: string;
+}
+
+// printable ASCII and ASCII whitespace, as accepted by the node
+const ASCII_REGEX = /^[\x20-\x7e\t\n\x0c\r]*$/;
+
+const stringAsciiCV = (data: string): StringAsciiCV => {
+  if (!ASCII_REGEX.test(data)) {
+    throw new Error('Cannot construct clarity ascii string from non-ASCII characters');
+  }
+  if (data.length > 1000000) {
+    throw new Error('Cannot construct clarity string that is greater than 1MB');
+  }
+
+  return { type: ClarityType.StringASCII, data };
+};
+
+const stringUtf8CV = (data: string): StringUtf8CV => {
+  const bytes = Buffer.from(data, 'utf8');
+  if (bytes.toString('utf8') !== data) {
+    throw new Error('Cannot construct clarity utf8 string from invalid UTF-16 text');
+  }
+  if (bytes.length > 1000000) {
+    throw new Error('Cannot construct clarity string that is greater than 1MB');
+  }
+
+  return { type: ClarityType.StringUTF8, data };
+};
+
+export { StringAsciiCV, StringUtf8CV, stringAsciiCV, stringUtf8CV };
@@ -0,0 +1,342 @@
+import { ClarityAbi, ClarityAbiFunction, abiToJSON } from './abi';
+
+import { ClarityTypeSignature, signatureToString } from './clarity';
+
+const INDENT = '  ';
+
+/**
+ * Contract client generation options
+ *
+ * @param  {String} contractAddress - the c32check address the contract is deployed at, which
+ *                                    callers can override per call
+ * @param  {String} contractName - the contract name
+ * @param  {String} importPath - the module to import this library from, defaults to
+ *                               "@blockstack/stacks-transactions"
+ */
+export interface ContractClientOptions {
+  contractAddress: string;
+  contractName: string;
+  importPath?: string;
+}
+
+/**
+ * Generates the source of a TypeScript module with a typed client for a contract, e.g. for
+ * kv-store a `kvStore` object whose `setValue({ key, value }, options)` returns the
+ * {@link StacksTransaction} calling `set-value`, built with {@link makeContractCall}.
+ *
+ * The client has one method per public function, taking an object with the function
+ * arguments, and tuple fields within them, in camel case. Argument types map to TypeScript
+ * types as in {@link ClarityArgValue} and are converted with {@link encodeFunctionArgs} against
+ * the ABI embedded in the module, so invalid arguments throw before the transaction is built.
+ * Each method has an `Unsigned` variant, e.g. `setValueUnsigned`, built for a public key or
+ * multi-sig sender with {@link makeUnsignedContractCall}, and a `WithSigner` variant built with
+ * {@link makeContractCallWithSigner}.
+ *
+ * @param  {ClarityAbi} abi - the contract interface, e.g. from {@link abiFromJSON} or
+ *                            {@link analyzeContract}
+ * @param  {ContractClientOptions} options - where the contract is deployed
+ *
+ * @return {String} the TypeScript source
+ */
+export function generateContractClient(abi: ClarityAbi, options: ContractClientOptions): string {
+  const { contractAddress, contractName } = options;
+  const importPath = options.importPath ?? '@blockstack/stacks-transactions';
+  const typeName = pascalCase(contractName);
+  const functions = abi.functions.filter(fn => fn.access === 'public');
+
+  const lines = [
+    `// Generated from the ABI of ${contractAddress}.${contractName}, do not edit.`,
+    `import * as BigNum from 'bn.js';`,
+    '',
+    'import {',
+    '  ClarityArgValue,',
+    '  ContractCallOptions,',
+    '  MessageSigner,',
+    '  MultiSigSender,',
+    '  StacksTransaction,',
+    '  abiFromJSON,',
+    '  encodeFunctionArgs,',
+    '  getAbiFunction,',
+    '  makeContractCall,',
+    '  makeContractCallWithSigner,',
+    '  makeUnsignedContractCall,',
+    `} from '${importPath}';`,
+    '',
+    `const CONTRACT_ADDRESS = ${quote(contractAddress)};`,
+    `const CONTRACT_NAME = ${quote(contractName)};`,
+    '',
+    'const abi = abiFromJSON(',
+    `  ${quote(JSON.stringify(abiToJSON(abi)))}`,
+    ');',
+    '',
+    '/**',
+    ` * Options for calling ${contractName}: the fee rate passed to the transaction builders,`,
+    ' * and optionally the address of another deployment of the contract',
+    ' */',
+    `export interface ${typeName}BaseCallOptions extends ContractCallOptions {`,
+    '  feeRate: BigNum;',
+    '  contractAddress?: string;',
+    '}',
+    '',
+    '/**',
+    ' * Options for calls signed with the private key of the sender',
+    ' */',
+    `export interface ${typeName}CallOptions extends ${typeName}BaseCallOptions {`,
+    '  senderKey: string;',
+    '}',
+    '',
+    '/**',
+    ' * Options for unsigned calls, from the public key of a single-sig sender or a multi-sig sender',
+    ' */',
+    `export interface ${typeName}UnsignedCallOptions extends ${typeName}BaseCallOptions {`,
+    '  sender: string | MultiSigSender;',
+    '}',
+    '',
+    '/**',
+    ' * Options for calls signed by a message signer, e.g. backed by an HSM or KMS',
+    ' */',
+    `export interface ${typeName}SignerCallOptions extends ${typeName}BaseCallOptions {`,
+    '  signer: MessageSigner;',
+    '}',
+  ];
+  functions
+    .filter(fn => fn.args.length > 0)
+    .forEach(fn => {
+      lines.push('', `export interface ${argsTypeName(typeName, fn)} {`);
+      fn.args.forEach(arg => {
+        lines.push(`${INDENT}${propertyName(camelCase(arg.name))}: ${tsType(arg.type)};`);
+      });
+      lines.push('}');
+    });
+  functions
+    .filter(fn => fn.args.length > 0)
+    .forEach(fn => {
+      lines.push(
+        '',
+        functionSignature(
+          '',
+          `function ${camelCase(fn.name)}Args`,
+          [`args: ${argsTypeName(typeName, fn)}`],
+          '{ [name: string]: ClarityArgValue }'
+        ),
+        `${INDENT}return {`
+      );
+      fn.args.forEach(arg => {
+        const value = argValue(arg.type, `args.${camelCase(arg.name)}`, 0);
+        lines.push(`${INDENT.repeat(2)}${propertyName(arg.name)}: ${value},`);
+      });
+      lines.push(`${INDENT}};`, '}');
+    });
+  const builders = [
+    { suffix: '', builder: 'makeContractCall', key: 'senderKey', options: 'CallOptions' },
+    {
+      suffix: 'Unsigned',
+      builder: 'makeUnsignedContractCall',
+      key: 'sender',
+      options: 'UnsignedCallOptions',
+    },
+    {
+      suffix: 'WithSigner',
+      builder: 'makeContractCallWithSigner',
+      key: 'signer',
+      options: 'SignerCallOptions',
+    },
+  ];
+  builders.forEach(({ suffix, builder, key, options }) => {
+    const returnType = suffix === 'WithSigner' ? 'Promise<StacksTransaction>' : 'StacksTransaction';
+    lines.push(
+      '',
+      `function callContract${suffix}(`,
+      '  functionName: string,',
+      '  args: { [name: string]: ClarityArgValue },',
+      `  options: ${typeName}${options}`,
+      `): ${returnType} {`,
+      `  const { contractAddress, feeRate, ${key}, ...callOptions } = options;`,
+      `  return ${builder}(`,
+      '    contractAddress ?? CONTRACT_ADDRESS,',
+      '    CONTRACT_NAME,',
+      '    functionName,',
+      '    encodeFunctionArgs(getAbiFunction(abi, functionName), args),',
+      '    feeRate,',
+      `    ${key},`,
+      '    { ...callOptions, abi }',
+      '  );',
+      '}'
+    );
+  });
+  lines.push('', `export const ${camelCase(contractName)} = {`);
+  functions.forEach((fn, index) => {
+    if (index > 0) {
+      lines.push('');
+    }
+    lines.push(...generateMethods(fn, typeName));
+  });
+  lines.push('};', '');
+  return lines.join('\n');
+}
+
+function generateMethods(fn: ClarityAbiFunction, typeName: string): string[] {
+  const name = camelCase(fn.name);
+  const lines = [`${INDENT}/**`, `${INDENT} * Calls ${fn.name}, signed with the sender key`];
+  if (fn.args.length > 0) {
+    lines.push(`${INDENT} *`);
+    fn.args.forEach(arg => {
+      lines.push(`${INDENT} * @param  ${camelCase(arg.name)} - ${signatureToString(arg.type)}`);
+    });
+  }
+  lines.push(`${INDENT} */`);
+  lines.push(...generateMethod(fn, typeName, ''), '');
+  lines.push(
+    `${INDENT}/**`,
+    `${INDENT} * Builds the unsigned call to ${fn.name}, see {@link ${name}}`,
+    `${INDENT} */`
+  );
+  lines.push(...generateMethod(fn, typeName, 'Unsigned'), '');
+  lines.push(
+    `${INDENT}/**`,
+    `${INDENT} * Calls ${fn.name}, signed by the signer, see {@link ${name}}`,
+    `${INDENT} */`
+  );
+  lines.push(...generateMethod(fn, typeName, 'WithSigner'));
+  return lines;
+}
+
+function generateMethod(fn: ClarityAbiFunction, typeName: string, suffix: string): string[] {
+  const optionsName = `${typeName}${suffix === 'WithSigner' ? 'Signer' : suffix}CallOptions`;
+  const returnType = suffix === 'WithSigner' ? 'Promise<StacksTransaction>' : 'StacksTransaction';
+  const params = [`options: ${optionsName}`];
+  let args = '{}';
+  if (fn.args.length > 0) {
+    params.unshift(`args: ${argsTypeName(typeName, fn)}`);
+    args = `${camelCase(fn.name)}Args(args)`;
+  }
+  const name = `${camelCase(fn.name)}${suffix}`;
+  return [
+    functionSignature(INDENT, name, params, returnType),
+    `${INDENT.repeat(2)}return callContract${suffix}(${quote(fn.name)}, ${args}, options);`,
+    `${INDENT}},`,
+  ];
+}
+
+/**
+ * Returns the opening line(s) of a function, with the parameters on their own lines if they
+ * do not fit on one, as prettier formats them
+ */
+function functionSignature(
+  indent: string,
+  name: string,
+  params: string[],
+  returnType: string
+): string {
+  const line = `${indent}${name}(${params.join(', ')}): ${returnType} {`;
+  if (line.length <= 100) {
+    return line;
+  }
+  const lines = params.map((param, index) => {
+    return `${indent}${INDENT}${param}${index < params.length - 1 ? ',' : ''}`;
+  });
+  return [`${indent}${name}(`, ...lines, `${indent}): ${returnType} {`].join('\n');
+}
+
+/**
+ * Returns the expression converting a camel case argument to the value passed to
+ * {@link encodeFunctionArgs}, which names tuple fields as in Clarity
+ */
+function argValue(signature: ClarityTypeSignature, expression: string, depth: number): string {
+  if (!hasRenamedFields(signature)) {
+    return expression;
+  }
+  switch (signature.type) {
+    case 'optional':
+      return `${expression} === null ? null : ${argValue(signature.value, expression, depth)}`;
+    case 'response':
+      const ok = argValue(signature.ok, `${expression}.ok`, depth);
+      const err = argValue(signature.err, `${expression}.err`, depth);
+      return `'ok' in ${expression} ? { ok: ${ok} } : { err: ${err} }`;
+    case 'list':
+      const entry = depth > 0 ? `entry${depth + 1}` : 'entry';
+      const value = argValue(signature.entry, entry, depth + 1);
+      // an object literal as the body of an arrow function must be parenthesized
+      return `${expression}.map(${entry} => ${value.startsWith('{') ? `(${value})` : value})`;
+    case 'tuple':
+      const fields = Object.keys(signature.fields).map(key => {
+        const value = argValue(signature.fields[key], `${expression}.${camelCase(key)}`, depth);
+        return `${propertyName(key)}: ${value}`;
+      });
+      return `{ ${fields.join(', ')} }`;
+    default:
+      return expression;
+  }
+}
+
+function hasRenamedFields(signature: ClarityTypeSignature): boolean {
+  switch (signature.type) {
+    case 'optional':
+      return hasRenamedFields(signature.value);
+    case 'response':
+      return hasRenamedFields(signature.ok) || hasRenamedFields(signature.err);
+    case 'list':
+      return hasRenamedFields(signature.entry);
+    case 'tuple':
+      return Object.keys(signature.fields).some(
+        key => camelCase(key) !== key || hasRenamedFields(signature.fields[key])
+      );
+    default:
+      return false;
+  }
+}
+
+function tsType(signature: ClarityTypeSignature): string {
+  switch (signature.type) {
+    case 'int':
+    case 'uint':
+      return 'BigNum | number | bigint | string';
+    case 'bool':
+      return 'boolean';
+    case 'principal':
+    case 'string-ascii':
+    case 'string-utf8':
+      return 'string';
+    case 'buff':
+      return 'Buffer';
+    case 'optional':
+      return `${tsType(signature.value)} | null`;
+    case 'response':
+      return `{ ok: ${tsType(signature.ok)} } | { err: ${tsType(signature.err)} }`;
+    case 'list':
+      const entry = tsType(signature.entry);
+      const isUnion = ['int', 'uint', 'optional', 'response'].includes(signature.entry.type);
+      return isUnion ? `(${entry})[]` : `${entry}[]`;
+    case 'tuple':
+      const fields = Object.keys(signature.fields).map(
+        key => `${propertyName(camelCase(key))}: ${tsType(signature.fields[key])}`
+      );
+      return `{ ${fields.join('; ')} }`;
+    case 'no-type':
+      return 'never';
+  }
+}
+
+function argsTypeName(typeName: string, fn: ClarityAbiFunction): string {
+  return `${typeName}${pascalCase(fn.name)}Args`;
+}
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function propertyName(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : quote(name);
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
@@ -6,6 +6,7 @@ const RECOVERABLE_ECDSA_SIG_LENGTH_BYTES = 65;
 const COMPRESSED_PUBKEY_LENGTH_BYTES = 32;
 const UNCOMPRESSED_PUBKEY_LENGTH_BYTES = 64;
 const MEMO_MAX_LENGTH_BYTES = 34;
+const MAX_MULTISIG_PUBKEYS = 15;
 
 enum PayloadType {
   TokenTransfer = 0x00,
@@ -67,6 +68,13 @@ enum PubKeyEncoding {
   Uncompressed = 0x01,
 }
 
+enum AuthFieldType {
+  PublicKeyCompressed = 0x00,
+  PublicKeyUncompressed = 0x01,
+  SignatureCompressed = 0x02,
+  SignatureUncompressed = 0x03,
+}
+
 enum FungibleConditionCode {
   Equal = 0x01,
   Greater = 0x02,
@@ -110,6 +118,8 @@ enum ClarityType {
   OptionalSome = 0x0a,
   List = 0x0b,
   Tuple = 0x0c,
+  StringASCII = 0x0d,
+  StringUTF8 = 0x0e,
 }
 
 export {
@@ -121,6 +131,7 @@ export {
   COMPRESSED_PUBKEY_LENGTH_BYTES,
   UNCOMPRESSED_PUBKEY_LENGTH_BYTES,
   MEMO_MAX_LENGTH_BYTES,
+  MAX_MULTISIG_PUBKEYS,
   PayloadType,
   AnchorMode,
   TransactionVersion,
@@ -130,6 +141,7 @@ export {
   AddressHashMode,
   AddressVersion,
   PubKeyEncoding,
+  AuthFieldType,
   FungibleConditionCode,
   NonFungibleConditionCode,
   PrincipalType,
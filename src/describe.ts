@@ -0,0 +1,255 @@
+import {
+  TransactionVersion,
+  PayloadType,
+  PostConditionMode,
+  PostConditionType,
+  PrincipalType,
+  FungibleConditionCode,
+  NonFungibleConditionCode,
+} from './constants';
+
+import { StacksTransaction, deserializeTransaction } from './transaction';
+
+import { SpendingCondition } from './authorization';
+
+import { Payload } from './payload';
+
+import { PostCondition } from './postcondition';
+
+import { Address, AssetInfo, Principal } from './types';
+
+import { cvToString } from './clarity';
+
+import * as BigNum from 'bn.js';
+
+const MICROSTACKS_PER_STACK = 1000000;
+
+/**
+ * Summary of a spending condition: the address of the account and what it pays
+ *
+ * @param  {String} address - the c32check address derived from the signer
+ * @param  {String} nonce - the account nonce, as a decimal string
+ * @param  {String} fee - the fee in STX, e.g. "0.001 STX"
+ */
+export interface SpenderDescription {
+  address: string;
+  nonce: string;
+  fee: string;
+}
+
+/**
+ * Human readable summary of a transaction
+ *
+ * @param  {String} txid - the transaction id
+ * @param  {String} network - "mainnet" or "testnet"
+ * @param  {SpenderDescription} sender - the origin account
+ * @param  {SpenderDescription} sponsor - the account paying the fee, if sponsored
+ * @param  {String} action - what the payload does, e.g. "transfer 5 STX to SP..."
+ * @param  {String} postConditionMode - "allow" or "deny" asset transfers not covered by
+ *                                      post conditions
+ * @param  {String[]} postConditions - each post condition in plain English
+ */
+export interface TransactionDescription {
+  txid: string;
+  network: string;
+  sender: SpenderDescription;
+  sponsor?: SpenderDescription;
+  action: string;
+  postConditionMode: string;
+  postConditions: string[];
+}
+
+/**
+ * Describes what a transaction does, for review before it is signed or broadcast
+ *
+ * @param  {StacksTransaction | String | Buffer} transaction - a transaction, or its
+ *                                                            serialized bytes or hex
+ *
+ * @return {TransactionDescription}
+ */
+export function describeTransaction(
+  transaction: StacksTransaction | string | Buffer
+): TransactionDescription {
+  const tx =
+    transaction instanceof StacksTransaction ? transaction : deserializeTransaction(transaction);
+  if (tx.version === undefined) {
+    throw new Error('"version" is undefined');
+  }
+  if (tx.auth?.spendingCondition === undefined) {
+    throw new Error('"auth.spendingCondition" is undefined');
+  }
+  if (tx.payload === undefined) {
+    throw new Error('"payload" is undefined');
+  }
+
+  const description: TransactionDescription = {
+    txid: tx.txid(),
+    network: tx.version === TransactionVersion.Mainnet ? 'mainnet' : 'testnet',
+    sender: describeSpender(tx.auth.spendingCondition, tx.version),
+    action: describePayload(tx.payload),
+    postConditionMode: tx.postConditionMode === PostConditionMode.Allow ? 'allow' : 'deny',
+    postConditions: Array.from(tx.postConditions, (postCondition: PostCondition) =>
+      describePostCondition(postCondition)
+    ),
+  };
+  if (tx.auth.sponsorSpendingCondition !== undefined) {
+    description.sponsor = describeSpender(tx.auth.sponsorSpendingCondition, tx.version);
+  }
+  return description;
+}
+
+/**
+ * Formats an amount of microstacks in STX, e.g. 1500000 as "1.5 STX"
+ */
+export function formatSTX(microstacks: BigNum): string {
+  const stacks = microstacks.div(new BigNum(MICROSTACKS_PER_STACK)).toString(10);
+  const fraction = microstacks
+    .mod(new BigNum(MICROSTACKS_PER_STACK))
+    .toString(10)
+    .padStart(6, '0')
+    .replace(/0+$/, '');
+  return fraction.length > 0 ? `${stacks}.${fraction} STX` : `${stacks} STX`;
+}
+
+function describeSpender(
+  condition: SpendingCondition,
+  version: TransactionVersion
+): SpenderDescription {
+  if (condition.addressHashMode === undefined) {
+    throw new Error('"addressHashMode" is undefined');
+  }
+  if (condition.signerAddress?.data === undefined) {
+    throw new Error('"signerAddress.data" is undefined');
+  }
+  if (condition.nonce === undefined) {
+    throw new Error('"nonce" is undefined');
+  }
+  if (condition.feeRate === undefined) {
+    throw new Error('"feeRate" is undefined');
+  }
+  const address = Address.fromHashMode(
+    condition.addressHashMode,
+    version,
+    condition.signerAddress.data
+  );
+  return {
+    address: address.toString(),
+    nonce: condition.nonce.toString(10),
+    fee: formatSTX(condition.feeRate),
+  };
+}
+
+function describePayload(payload: Payload): string {
+  switch (payload.payloadType) {
+    case PayloadType.TokenTransfer:
+      if (payload.recipientAddress === undefined) {
+        throw new Error('"recipientAddress" is undefined');
+      }
+      if (payload.amount === undefined) {
+        throw new Error('"amount" is undefined');
+      }
+      if (payload.memo === undefined) {
+        throw new Error('"memo" is undefined');
+      }
+      const transfer = `transfer ${formatSTX(payload.amount)} to ${payload.recipientAddress}`;
+      const memo = payload.memo.toJSON();
+      return memo.length > 0 ? `${transfer} with memo "${memo}"` : transfer;
+    case PayloadType.ContractCall:
+      if (payload.contractAddress === undefined) {
+        throw new Error('"contractAddress" is undefined');
+      }
+      if (payload.contractName === undefined) {
+        throw new Error('"contractName" is undefined');
+      }
+      if (payload.functionName === undefined) {
+        throw new Error('"functionName" is undefined');
+      }
+      if (payload.functionArgs === undefined) {
+        throw new Error('"functionArgs" is undefined');
+      }
+      const functionArgs = payload.functionArgs.map(cv => cvToString(cv));
+      const call = `call ${payload.contractName}.${payload.functionName} of ${payload.contractAddress}`;
+      return functionArgs.length > 0
+        ? `${call} with (${functionArgs.join(', ')})`
+        : `${call} without arguments`;
+    case PayloadType.SmartContract:
+      if (payload.contractName === undefined) {
+        throw new Error('"contractName" is undefined');
+      }
+      return `deploy contract ${payload.contractName}`;
+    case PayloadType.PoisonMicroblock:
+      return 'report a poisoned microblock';
+    case PayloadType.Coinbase:
+      return 'coinbase';
+    default:
+      throw new Error(`Unexpected payload type ${payload.payloadType}`);
+  }
+}
+
+function describePrincipal(principal: Principal): string {
+  if (principal.principalType === PrincipalType.Origin) {
+    return 'the origin';
+  }
+  if (principal.principalType === PrincipalType.Contract) {
+    return `${principal.address}.${principal.contractName}`;
+  }
+  return principal.address.toString();
+}
+
+function describeAsset(assetInfo: AssetInfo): string {
+  return `${assetInfo.address}.${assetInfo.contractName}::${assetInfo.assetName}`;
+}
+
+function describeFungibleConditionCode(conditionCode: FungibleConditionCode): string {
+  switch (conditionCode) {
+    case FungibleConditionCode.Equal:
+      return 'exactly';
+    case FungibleConditionCode.Greater:
+      return 'more than';
+    case FungibleConditionCode.GreaterEqual:
+      return 'at least';
+    case FungibleConditionCode.Less:
+      return 'less than';
+    case FungibleConditionCode.LessEqual:
+      return 'at most';
+  }
+}
+
+function describePostCondition(postCondition: PostCondition): string {
+  if (postCondition.principal === undefined) {
+    throw new Error('"principal" is undefined');
+  }
+  const principal = describePrincipal(postCondition.principal);
+  switch (postCondition.postConditionType) {
+    case PostConditionType.STX:
+      if (postCondition.amount === undefined) {
+        throw new Error('"amount" is undefined');
+      }
+      return `${principal} will send ${describeFungibleConditionCode(
+        postCondition.conditionCode as FungibleConditionCode
+      )} ${formatSTX(postCondition.amount)}`;
+    case PostConditionType.Fungible:
+      if (postCondition.amount === undefined) {
+        throw new Error('"amount" is undefined');
+      }
+      if (postCondition.assetInfo === undefined) {
+        throw new Error('"assetInfo" is undefined');
+      }
+      return `${principal} will send ${describeFungibleConditionCode(
+        postCondition.conditionCode as FungibleConditionCode
+      )} ${postCondition.amount.toString(10)} ${describeAsset(postCondition.assetInfo)}`;
+    case PostConditionType.NonFungible:
+      if (postCondition.assetInfo === undefined) {
+        throw new Error('"assetInfo" is undefined');
+      }
+      if (postCondition.assetName === undefined) {
+        throw new Error('"assetName" is undefined');
+      }
+      const owns = postCondition.conditionCode === NonFungibleConditionCode.Owns;
+      return `${principal} will ${owns ? 'own' : 'not own'} ${describeAsset(
+        postCondition.assetInfo
+      )} ${cvToString(postCondition.assetName)}`;
+    default:
+      throw new Error(`Unexpected post condition type ${postCondition.postConditionType}`);
+  }
+}
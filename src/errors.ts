@@ -0,0 +1,56 @@
+/**
+ * Thrown when bytes cannot be deserialized into a Stacks message
+ *
+ * @param  {String} message - what is wrong with the data
+ * @param  {Number} offset - the byte offset in the data at which the problem was found
+ */
+export class DeserializationError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} at byte offset ${offset}`);
+    this.name = 'DeserializationError';
+    this.offset = offset;
+  }
+}
+
+/**
+ * Thrown when reading past the end of the data being deserialized
+ *
+ * @param  {Number} bytesRequested - the number of bytes that were to be read
+ * @param  {Number} bytesRemaining - the number of bytes left in the data
+ * @param  {Number} offset - the byte offset at which the read started
+ */
+export class BufferOutOfBoundsError extends DeserializationError {
+  bytesRequested: number;
+  bytesRemaining: number;
+
+  constructor(bytesRequested: number, bytesRemaining: number, offset: number) {
+    super(
+      `Unexpected end of data: cannot read ${bytesRequested} bytes, ${bytesRemaining} remaining`,
+      offset
+    );
+    this.name = 'BufferOutOfBoundsError';
+    this.bytesRequested = bytesRequested;
+    this.bytesRemaining = bytesRemaining;
+  }
+}
+
+/**
+ * Thrown when Clarity source cannot be parsed into a Clarity value
+ *
+ * @param  {String} message - what is wrong with the source
+ * @param  {Number} line - the line of the source at which the problem was found, from 1
+ * @param  {Number} column - the column of the line at which the problem was found, from 1
+ */
+export class ClarityParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'ClarityParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
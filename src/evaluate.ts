@@ -0,0 +1,209 @@
+import {
+  AssetType,
+  PostConditionMode,
+  PostConditionType,
+  PrincipalType,
+  FungibleConditionCode,
+  NonFungibleConditionCode,
+} from './constants';
+
+import { PostCondition } from './postcondition';
+
+import { AssetInfo, Principal, StandardPrincipal } from './types';
+
+import { ClarityValue, serializeCV } from './clarity';
+
+import * as BigNum from 'bn.js';
+
+/**
+ * An asset movement produced by executing a transaction, as reported by the node
+ *
+ * @param  {AssetType} assetType - STX, fungible or non-fungible
+ * @param  {Principal} sender - the principal the asset was sent from
+ * @param  {Principal} recipient - the principal the asset was sent to, undefined if burned
+ * @param  {BigNum} amount - the amount of STX or fungible tokens sent
+ * @param  {AssetInfo} assetInfo - the fungible or non-fungible asset
+ * @param  {ClarityValue} assetName - the Clarity value identifying the non-fungible token
+ */
+export interface AssetTransferEvent {
+  assetType: AssetType;
+  sender: Principal;
+  recipient?: Principal;
+  amount?: BigNum;
+  assetInfo?: AssetInfo;
+  assetName?: ClarityValue;
+}
+
+export interface PostConditionResult {
+  postCondition: PostCondition;
+  passed: boolean;
+}
+
+/**
+ * Outcome of checking post conditions against the asset movements of a transaction
+ *
+ * @param  {Boolean} passed - whether the node would accept the transaction's asset movements
+ * @param  {PostConditionResult[]} results - the outcome of each post condition, in order
+ * @param  {AssetTransferEvent[]} unchecked - in deny mode, the transfers that no post
+ *                                            condition covers
+ */
+export interface PostConditionEvaluation {
+  passed: boolean;
+  results: PostConditionResult[];
+  unchecked: AssetTransferEvent[];
+}
+
+/**
+ * Evaluates post conditions the way the node does after executing a transaction.
+ *
+ * STX and fungible post conditions compare the total amount the principal sent with the
+ * condition amount. A non-fungible post condition with {@link NonFungibleConditionCode.DoesNotOwn}
+ * passes if the principal sent the token, and one with {@link NonFungibleConditionCode.Owns}
+ * passes if it did not. In deny mode every transfer must also be covered by a post condition
+ * on the same sender and asset (and, for non-fungible tokens, the same token). Post conditions
+ * on the origin principal apply to the address of the transaction origin.
+ *
+ * @param  {PostCondition[]} postConditions - the post conditions of the transaction
+ * @param  {PostConditionMode} postConditionMode - whether uncovered transfers are allowed
+ * @param  {AssetTransferEvent[]} events - the asset movements of the transaction
+ * @param  {String} origin - the c32check address of the transaction origin, required if any
+ *                           post condition uses the origin principal
+ *
+ * @return {PostConditionEvaluation}
+ */
+export function evaluatePostConditions(
+  postConditions: PostCondition[],
+  postConditionMode: PostConditionMode,
+  events: AssetTransferEvent[],
+  origin?: string
+): PostConditionEvaluation {
+  const results = Array.from(postConditions, (postCondition: PostCondition) => ({
+    postCondition,
+    passed: checkPostCondition(postCondition, events, origin),
+  }));
+  const unchecked =
+    postConditionMode === PostConditionMode.Deny
+      ? events.filter(event => !postConditions.some(pc => coversTransfer(pc, event, origin)))
+      : [];
+  return {
+    passed: results.every(result => result.passed) && unchecked.length === 0,
+    results,
+    unchecked,
+  };
+}
+
+function checkPostCondition(
+  postCondition: PostCondition,
+  events: AssetTransferEvent[],
+  origin?: string
+): boolean {
+  if (postCondition.conditionCode === undefined) {
+    throw new Error('"conditionCode" is undefined');
+  }
+  const sent = events.filter(event => coversTransfer(postCondition, event, origin));
+  switch (postCondition.postConditionType) {
+    case PostConditionType.STX:
+    case PostConditionType.Fungible:
+      if (postCondition.amount === undefined) {
+        throw new Error('"amount" is undefined');
+      }
+      const amountSent = sent.reduce(
+        (total, event) => total.add(event.amount ?? new BigNum(0)),
+        new BigNum(0)
+      );
+      return compareAmounts(
+        amountSent,
+        postCondition.conditionCode as FungibleConditionCode,
+        postCondition.amount
+      );
+    case PostConditionType.NonFungible:
+      if (postCondition.conditionCode === NonFungibleConditionCode.DoesNotOwn) {
+        return sent.length > 0;
+      }
+      return sent.length === 0;
+    default:
+      throw new Error(`Unexpected post condition type ${postCondition.postConditionType}`);
+  }
+}
+
+function compareAmounts(
+  amountSent: BigNum,
+  conditionCode: FungibleConditionCode,
+  amount: BigNum
+): boolean {
+  switch (conditionCode) {
+    case FungibleConditionCode.Equal:
+      return amountSent.eq(amount);
+    case FungibleConditionCode.Greater:
+      return amountSent.gt(amount);
+    case FungibleConditionCode.GreaterEqual:
+      return amountSent.gte(amount);
+    case FungibleConditionCode.Less:
+      return amountSent.lt(amount);
+    case FungibleConditionCode.LessEqual:
+      return amountSent.lte(amount);
+    default:
+      throw new Error(`Invalid FungibleConditionCode ${conditionCode}`);
+  }
+}
+
+function coversTransfer(
+  postCondition: PostCondition,
+  event: AssetTransferEvent,
+  origin?: string
+): boolean {
+  if (postCondition.principal === undefined) {
+    throw new Error('"principal" is undefined');
+  }
+  if (!samePrincipal(resolvePrincipal(postCondition.principal, origin), event.sender)) {
+    return false;
+  }
+  switch (postCondition.postConditionType) {
+    case PostConditionType.STX:
+      return event.assetType === AssetType.STX;
+    case PostConditionType.Fungible:
+      return event.assetType === AssetType.Fungible && sameAsset(postCondition.assetInfo, event);
+    case PostConditionType.NonFungible:
+      return (
+        event.assetType === AssetType.NonFungible &&
+        sameAsset(postCondition.assetInfo, event) &&
+        sameAssetName(postCondition.assetName, event.assetName)
+      );
+    default:
+      return false;
+  }
+}
+
+function resolvePrincipal(principal: Principal, origin?: string): Principal {
+  if (principal.principalType !== PrincipalType.Origin) {
+    return principal;
+  }
+  if (origin === undefined) {
+    throw new Error('"origin" is undefined');
+  }
+  return new StandardPrincipal(origin);
+}
+
+function samePrincipal(principal: Principal, other: Principal): boolean {
+  return principal.serialize().equals(other.serialize());
+}
+
+function sameAsset(assetInfo: AssetInfo | undefined, event: AssetTransferEvent): boolean {
+  if (assetInfo === undefined) {
+    throw new Error('"assetInfo" is undefined');
+  }
+  if (event.assetInfo === undefined) {
+    throw new Error('"assetInfo" is undefined');
+  }
+  return assetInfo.serialize().equals(event.assetInfo.serialize());
+}
+
+function sameAssetName(assetName: ClarityValue | undefined, other: ClarityValue | undefined) {
+  if (assetName === undefined) {
+    throw new Error('"assetName" is undefined');
+  }
+  if (other === undefined) {
+    throw new Error('"assetName" is undefined');
+  }
+  return serializeCV(assetName).equals(serializeCV(other));
+}
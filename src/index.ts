@@ -1,10 +1,18 @@
-export { StacksTransaction } from './transaction';
+export { StacksTransaction, TransactionJSON, deserializeTransaction } from './transaction';
+
+export { DeserializationError, BufferOutOfBoundsError, ClarityParseError } from './errors';
 
 export {
   Authorization,
   StandardAuthorization,
   SponsoredAuthorization,
   SpendingCondition,
+  SingleSigSpendingCondition,
+  MultiSigSpendingCondition,
+  MessageSignature,
+  AuthorizationJSON,
+  SpendingConditionJSON,
+  SpendingAuthorizationFieldJSON,
 } from './authorization';
 
 export {
@@ -13,8 +21,11 @@ export {
   SmartContractPayload,
   PoisonPayload,
   CoinbasePayload,
+  PayloadJSON,
 } from './payload';
 
+export { PostConditionJSON } from './postcondition';
+
 // Clarity Value Types
 export {
   ClarityType,
@@ -33,6 +44,9 @@ export {
   ContractPrincipalCV,
   ListCV,
   TupleCV,
+  StringAsciiCV,
+  StringUtf8CV,
+  ClarityValueJSON,
 } from './clarity';
 
 // Clarity Value Construction Functions
@@ -52,14 +66,116 @@ export {
   contractPrincipalCVFromAddress,
   listCV,
   tupleCV,
+  stringAsciiCV,
+  stringUtf8CV,
 } from './clarity';
 
 // Clarity Value Serialization/Deserialization
 export { serializeCV, deserializeCV } from './clarity';
 
-export { StacksPrivateKey, StacksPublicKey } from './keys';
+// Clarity Value JSON
+export { cvToJSON, cvFromJSON } from './clarity';
+
+// Clarity Value Parsing and Printing
+export { parseCV, cvToString } from './clarity';
+
+// Clarity Type Signatures
+export {
+  ClarityTypeSignature,
+  TypeMismatch,
+  inferSignature,
+  checkCV,
+  signatureToString,
+} from './clarity';
+
+export {
+  StacksPrivateKey,
+  StacksPublicKey,
+  MessageSigner,
+  PrivateKeySigner,
+  MockSigner,
+} from './keys';
 
-export { makeSTXTokenTransfer, makeSmartContractDeploy, makeContractCall } from './builders';
+export { TransactionSigner } from './signer';
+
+export {
+  ClarityAbi,
+  ClarityAbiFunction,
+  ClarityAbiArgument,
+  ClarityAbiVariable,
+  ClarityAbiMap,
+  ClarityAbiJSON,
+  ClarityAbiFunctionJSON,
+  ClarityAbiVariableJSON,
+  ClarityAbiMapJSON,
+  ClarityAbiTypeJSON,
+  ClarityFunctionAccess,
+  ClarityVariableAccess,
+  ClarityArgValue,
+  abiFromJSON,
+  abiToJSON,
+  getAbiFunction,
+  encodeFunctionArgs,
+  validateFunctionArgs,
+  argToCV,
+} from './abi';
+
+export { analyzeContract, parseTypeSignature } from './analyze';
+
+export {
+  makeSTXTokenTransfer,
+  makeSmartContractDeploy,
+  makeContractCall,
+  makeUnsignedSTXTokenTransfer,
+  makeUnsignedSmartContractDeploy,
+  makeUnsignedContractCall,
+  makeSTXTokenTransferWithSigner,
+  makeSmartContractDeployWithSigner,
+  makeContractCallWithSigner,
+  sponsorTransaction,
+  sponsorTransactionWithSigner,
+  makeStandardSTXPostCondition,
+  makeContractSTXPostCondition,
+  makeOriginSTXPostCondition,
+  makeStandardFungiblePostCondition,
+  makeContractFungiblePostCondition,
+  makeOriginFungiblePostCondition,
+  makeStandardNonFungiblePostCondition,
+  makeContractNonFungiblePostCondition,
+  makeOriginNonFungiblePostCondition,
+  makeStrictSTXTokenTransfer,
+  makeStrictTransferContractCall,
+  makeUnsignedStrictSTXTokenTransfer,
+  makeUnsignedStrictTransferContractCall,
+  makeStrictSTXTokenTransferWithSigner,
+  makeStrictTransferContractCallWithSigner,
+  deriveSTXTokenTransferPostConditions,
+  deriveFungibleTransferPostConditions,
+  deriveNonFungibleTransferPostConditions,
+  TokenTransferOptions,
+  ContractDeployOptions,
+  ContractCallOptions,
+  SponsorOptions,
+  MultiSigSender,
+} from './builders';
+
+export { generateContractClient, ContractClientOptions } from './codegen';
+
+export { Pc, PartialPcWithPrincipal, PartialPcFtWithCode, PartialPcNftWithCode } from './pc';
+
+export {
+  describeTransaction,
+  TransactionDescription,
+  SpenderDescription,
+  formatSTX,
+} from './describe';
+
+export {
+  evaluatePostConditions,
+  AssetTransferEvent,
+  PostConditionResult,
+  PostConditionEvaluation,
+} from './evaluate';
 
 export * from './types';
 export * from './constants';
@@ -1,4 +1,8 @@
-import { COMPRESSED_PUBKEY_LENGTH_BYTES, UNCOMPRESSED_PUBKEY_LENGTH_BYTES } from './constants';
+import {
+  COMPRESSED_PUBKEY_LENGTH_BYTES,
+  UNCOMPRESSED_PUBKEY_LENGTH_BYTES,
+  PubKeyEncoding,
+} from './constants';
 
 import {
   BufferArray,
@@ -14,7 +18,7 @@ import { StacksMessage } from './message';
 
 import { MessageSignature } from './authorization';
 
-export class StacksPublicKey extends StacksMessage {
+export class StacksPublicKey extends StacksMessage<string> {
   data?: Buffer;
 
   constructor(key?: string) {
@@ -32,6 +36,26 @@ export class StacksPublicKey extends StacksMessage {
     return new StacksPublicKey(pubKey);
   }
 
+  /**
+   * Recovers the public key that produced a recoverable signature over a message hash
+   *
+   * @param  {String} messageHash - hex string of the signed hash
+   * @param  {MessageSignature} signature - the recoverable signature
+   * @param  {PubKeyEncoding} pubKeyEncoding - the encoding of the returned public key
+   *
+   * @return {StacksPublicKey}
+   */
+  static fromSignature(
+    messageHash: string,
+    signature: MessageSignature,
+    pubKeyEncoding: PubKeyEncoding
+  ): StacksPublicKey {
+    const { recoveryParam, r, s } = signature.components();
+    const ec = new EC('secp256k1');
+    const point = ec.recoverPubKey(Buffer.from(messageHash, 'hex'), { r, s }, recoveryParam);
+    return new StacksPublicKey(point.encode('hex', pubKeyEncoding === PubKeyEncoding.Compressed));
+  }
+
   compressed(): boolean {
     if (this.data === undefined) {
       throw new Error('"data" is undefined');
@@ -39,6 +63,29 @@ export class StacksPublicKey extends StacksMessage {
     return !this.data.toString('hex').startsWith('04');
   }
 
+  /**
+   * Returns this key in the 33-byte compressed SEC encoding
+   */
+  toCompressed(): StacksPublicKey {
+    return this.encode(true);
+  }
+
+  /**
+   * Returns this key in the 65-byte uncompressed SEC encoding
+   */
+  toUncompressed(): StacksPublicKey {
+    return this.encode(false);
+  }
+
+  private encode(compressed: boolean): StacksPublicKey {
+    if (this.data === undefined) {
+      throw new Error('"data" is undefined');
+    }
+    const ec = new EC('secp256k1');
+    const point = ec.keyFromPublic(this.data.toString('hex'), 'hex').getPublic();
+    return new StacksPublicKey(point.encode('hex', compressed));
+  }
+
   toString(): string {
     return this.data?.toString('hex') ?? '';
   }
@@ -59,6 +106,14 @@ export class StacksPublicKey extends StacksMessage {
       : UNCOMPRESSED_PUBKEY_LENGTH_BYTES;
     this.data = bufferReader.read(keyLength + 1);
   }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  fromJSON(json: string) {
+    this.data = Buffer.from(json, 'hex');
+  }
 }
 
 export class StacksPrivateKey {
@@ -87,7 +142,7 @@ export class StacksPrivateKey {
     const ec = new EC('secp256k1');
     const options = { entropy: randomBytes(32) };
     const keyPair = ec.genKeyPair(options);
-    const privateKey = keyPair.getPrivate().toString('hex');
+    const privateKey = leftPadHexToLength(keyPair.getPrivate().toString('hex'), 64);
     return new StacksPrivateKey(privateKey);
   }
 
@@ -115,3 +170,60 @@ export class StacksPrivateKey {
     return this.data.toString('hex');
   }
 }
+
+/**
+ * Produces signatures over transaction sighashes without exposing the signing key, so keys can
+ * live in an HSM, a cloud KMS or a hardware wallet. Both calls may complete asynchronously.
+ */
+export interface MessageSigner {
+  /**
+   * Returns the public key of the signing key, in the encoding the key signs with
+   */
+  getPublicKey(): Promise<StacksPublicKey>;
+
+  /**
+   * Signs a message hash, returning a recoverable signature
+   *
+   * @param  {String} messageHash - hex string of the 32-byte hash to sign
+   *
+   * @return {Promise<MessageSignature>}
+   */
+  signMessageHash(messageHash: string): Promise<MessageSignature>;
+}
+
+/**
+ * A message signer backed by a private key held in memory
+ */
+export class PrivateKeySigner implements MessageSigner {
+  privateKey: StacksPrivateKey;
+
+  constructor(privateKey: StacksPrivateKey) {
+    this.privateKey = privateKey;
+  }
+
+  getPublicKey(): Promise<StacksPublicKey> {
+    return Promise.resolve(this.privateKey.getPublicKey());
+  }
+
+  signMessageHash(messageHash: string): Promise<MessageSignature> {
+    return Promise.resolve(this.privateKey.sign(messageHash));
+  }
+}
+
+/**
+ * A local message signer for tests. It signs with a random key unless one is given, and records
+ * every hash it was asked to sign.
+ */
+export class MockSigner extends PrivateKeySigner {
+  signedHashes: string[];
+
+  constructor(privateKey?: StacksPrivateKey) {
+    super(privateKey ?? StacksPrivateKey.makeRandom());
+    this.signedHashes = [];
+  }
+
+  signMessageHash(messageHash: string): Promise<MessageSignature> {
+    this.signedHashes.push(messageHash);
+    return super.signMessageHash(messageHash);
+  }
+}
@@ -1,16 +1,30 @@
 import { BufferReader } from './utils';
 
-export interface StacksMessageCodec {
+export interface StacksMessageCodec<J> {
   serialize(): Buffer;
   deserialize(bufferReader: BufferReader): void;
+  toJSON(): J;
+  fromJSON(json: J): void;
 }
 
-export abstract class StacksMessage {
+/**
+ * The JSON representation of a message type
+ */
+export type MessageJSON<T extends StacksMessage> = ReturnType<T['toJSON']>;
+
+export abstract class StacksMessage<J = unknown> implements StacksMessageCodec<J> {
   abstract serialize(): Buffer;
   abstract deserialize(bufferReader: BufferReader): void;
+  abstract toJSON(): J;
+  abstract fromJSON(json: J): void;
   static deserialize<T extends StacksMessage>(this: new () => T, bufferReader: BufferReader): T {
     const message = new this();
     message.deserialize(bufferReader);
     return message;
   }
+  static fromJSON<T extends StacksMessage>(this: new () => T, json: MessageJSON<T>): T {
+    const message = new this();
+    message.fromJSON(json);
+    return message;
+  }
 }
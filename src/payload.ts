@@ -1,16 +1,39 @@
 import { COINBASE_BUFFER_LENGTH_BYTES, PayloadType, AssetType } from './constants';
 
-import { BufferArray, BufferReader } from './utils';
+import { BufferArray, BufferReader, enumToName, enumFromName, bigNumFromDecimal } from './utils';
 
 import { Address, LengthPrefixedString, CodeBodyString, AssetInfo, MemoString } from './types';
 
 import { StacksMessage } from './message';
 
-import { ClarityValue, serializeCV, deserializeCV } from './clarity/';
+import {
+  ClarityValue,
+  ClarityValueJSON,
+  serializeCV,
+  deserializeCV,
+  cvToJSON,
+  cvFromJSON,
+} from './clarity/';
 
 import * as BigNum from 'bn.js';
 
-export class Payload extends StacksMessage {
+/**
+ * JSON representation of a {@link Payload}, holding the fields of its payload type
+ */
+export interface PayloadJSON {
+  payloadType: string;
+  recipientAddress?: string;
+  amount?: string;
+  memo?: string;
+  contractAddress?: string;
+  contractName?: string;
+  functionName?: string;
+  functionArgs?: ClarityValueJSON[];
+  codeBody?: string;
+  coinbaseBuffer?: string;
+}
+
+export class Payload extends StacksMessage<PayloadJSON> {
   payloadType?: PayloadType;
 
   assetType?: AssetType;
@@ -105,19 +128,19 @@ export class Payload extends StacksMessage {
   }
 
   deserialize(bufferReader: BufferReader) {
-    this.payloadType = bufferReader.readByte() as PayloadType;
+    this.payloadType = bufferReader.readEnum<PayloadType>(PayloadType, 'PayloadType');
     switch (this.payloadType) {
       case PayloadType.TokenTransfer:
         this.recipientAddress = Address.deserialize(bufferReader);
-        this.amount = new BigNum(bufferReader.read(8).toString('hex'), 16);
-        this.memo = LengthPrefixedString.deserialize(bufferReader);
+        this.amount = bufferReader.readUInt64BE();
+        this.memo = MemoString.deserialize(bufferReader);
         break;
       case PayloadType.ContractCall:
         this.contractAddress = Address.deserialize(bufferReader);
         this.contractName = LengthPrefixedString.deserialize(bufferReader);
         this.functionName = LengthPrefixedString.deserialize(bufferReader);
         this.functionArgs = [];
-        const numberOfArgs = bufferReader.read(4).readUInt32BE(0);
+        const numberOfArgs = bufferReader.readUInt32BE();
         for (let i = 0; i < numberOfArgs; i++) {
           const clarityValue = deserializeCV(bufferReader);
           this.functionArgs.push(clarityValue);
@@ -137,6 +160,87 @@ export class Payload extends StacksMessage {
         break;
     }
   }
+
+  toJSON(): PayloadJSON {
+    const json: PayloadJSON = {
+      payloadType: enumToName(PayloadType, this.payloadType, 'PayloadType'),
+    };
+    switch (this.payloadType) {
+      case PayloadType.TokenTransfer:
+        json.recipientAddress = this.recipientAddress?.toJSON();
+        json.amount = this.amount?.toString(10);
+        json.memo = this.memo?.toJSON();
+        break;
+      case PayloadType.ContractCall:
+        json.contractAddress = this.contractAddress?.toJSON();
+        json.contractName = this.contractName?.toJSON();
+        json.functionName = this.functionName?.toJSON();
+        json.functionArgs = this.functionArgs?.map(cvToJSON);
+        break;
+      case PayloadType.SmartContract:
+        json.contractName = this.contractName?.toJSON();
+        json.codeBody = this.codeBody?.toJSON();
+        break;
+      case PayloadType.Coinbase:
+        json.coinbaseBuffer = this.coinbaseBuffer?.toString('hex');
+        break;
+    }
+    return json;
+  }
+
+  fromJSON(json: PayloadJSON) {
+    this.payloadType = enumFromName<PayloadType>(PayloadType, json.payloadType, 'PayloadType');
+    switch (this.payloadType) {
+      case PayloadType.TokenTransfer:
+        if (json.recipientAddress === undefined) {
+          throw new Error('"recipientAddress" is undefined');
+        }
+        this.recipientAddress = Address.fromJSON(json.recipientAddress);
+        this.amount = bigNumFromDecimal(json.amount, 'amount');
+        if (json.memo === undefined) {
+          throw new Error('"memo" is undefined');
+        }
+        this.memo = MemoString.fromJSON(json.memo);
+        break;
+      case PayloadType.ContractCall:
+        if (json.contractAddress === undefined) {
+          throw new Error('"contractAddress" is undefined');
+        }
+        if (json.contractName === undefined) {
+          throw new Error('"contractName" is undefined');
+        }
+        if (json.functionName === undefined) {
+          throw new Error('"functionName" is undefined');
+        }
+        if (json.functionArgs === undefined) {
+          throw new Error('"functionArgs" is undefined');
+        }
+        if (!Array.isArray(json.functionArgs)) {
+          throw new Error('Invalid functionArgs, expected an array');
+        }
+        this.contractAddress = Address.fromJSON(json.contractAddress);
+        this.contractName = LengthPrefixedString.fromJSON(json.contractName);
+        this.functionName = LengthPrefixedString.fromJSON(json.functionName);
+        this.functionArgs = json.functionArgs.map(cvFromJSON);
+        break;
+      case PayloadType.SmartContract:
+        if (json.contractName === undefined) {
+          throw new Error('"contractName" is undefined');
+        }
+        if (json.codeBody === undefined) {
+          throw new Error('"codeBody" is undefined');
+        }
+        this.contractName = LengthPrefixedString.fromJSON(json.contractName);
+        this.codeBody = CodeBodyString.fromJSON(json.codeBody);
+        break;
+      case PayloadType.Coinbase:
+        if (json.coinbaseBuffer === undefined) {
+          throw new Error('"coinbaseBuffer" is undefined');
+        }
+        this.coinbaseBuffer = Buffer.from(json.coinbaseBuffer, 'hex');
+        break;
+    }
+  }
 }
 
 export class TokenTransferPayload extends Payload {
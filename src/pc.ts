@@ -0,0 +1,213 @@
+import { FungibleConditionCode, NonFungibleConditionCode } from './constants';
+
+import { STXPostCondition, FungiblePostCondition, NonFungiblePostCondition } from './postcondition';
+
+import {
+  AssetInfo,
+  Principal,
+  StandardPrincipal,
+  ContractPrincipal,
+  OriginPrincipal,
+} from './types';
+
+import { ClarityValue } from './clarity';
+
+import { isClarityName, isContractName } from './utils';
+
+import { c32addressDecode } from 'c32check';
+
+import * as BigNum from 'bn.js';
+
+/**
+ * Fluent builder for post conditions, e.g.
+ *
+ * Pc.principal('SP2JXKMSH007NPYAQHKJPQMAQYAD90NQGTVJVQ02B').willSendLte(100).ustx()
+ * Pc.principal('SP2JX...VQ02B.market').willSendGte(10).ft('SP2JX...VQ02B.token::coin')
+ * Pc.origin().willSendAsset(uintCV(1)).of('SP2JX...VQ02B.tickets::ticket')
+ */
+export class Pc {
+  /**
+   * Starts a post condition on a standard ("address") or contract ("address.contract")
+   * principal
+   */
+  static principal(principal: string): PartialPcWithPrincipal {
+    return new PartialPcWithPrincipal(parsePrincipalString(principal));
+  }
+
+  /**
+   * Starts a post condition on the origin of the transaction
+   */
+  static origin(): PartialPcWithPrincipal {
+    return new PartialPcWithPrincipal(new OriginPrincipal());
+  }
+}
+
+export class PartialPcWithPrincipal {
+  principal: Principal;
+
+  constructor(principal: Principal) {
+    this.principal = principal;
+  }
+
+  willSendEq(amount: BigNum | number | bigint | string): PartialPcFtWithCode {
+    return new PartialPcFtWithCode(this.principal, FungibleConditionCode.Equal, amount);
+  }
+
+  willSendGt(amount: BigNum | number | bigint | string): PartialPcFtWithCode {
+    return new PartialPcFtWithCode(this.principal, FungibleConditionCode.Greater, amount);
+  }
+
+  willSendGte(amount: BigNum | number | bigint | string): PartialPcFtWithCode {
+    return new PartialPcFtWithCode(this.principal, FungibleConditionCode.GreaterEqual, amount);
+  }
+
+  willSendLt(amount: BigNum | number | bigint | string): PartialPcFtWithCode {
+    return new PartialPcFtWithCode(this.principal, FungibleConditionCode.Less, amount);
+  }
+
+  willSendLte(amount: BigNum | number | bigint | string): PartialPcFtWithCode {
+    return new PartialPcFtWithCode(this.principal, FungibleConditionCode.LessEqual, amount);
+  }
+
+  /**
+   * The principal will no longer own the non-fungible token after the transaction
+   */
+  willSendAsset(assetName: ClarityValue): PartialPcNftWithCode {
+    return new PartialPcNftWithCode(this.principal, NonFungibleConditionCode.DoesNotOwn, assetName);
+  }
+
+  /**
+   * The principal will still own the non-fungible token after the transaction
+   */
+  willNotSendAsset(assetName: ClarityValue): PartialPcNftWithCode {
+    return new PartialPcNftWithCode(this.principal, NonFungibleConditionCode.Owns, assetName);
+  }
+}
+
+export class PartialPcFtWithCode {
+  principal: Principal;
+  conditionCode: FungibleConditionCode;
+  amount: BigNum;
+
+  constructor(
+    principal: Principal,
+    conditionCode: FungibleConditionCode,
+    amount: BigNum | number | bigint | string
+  ) {
+    this.principal = principal;
+    this.conditionCode = conditionCode;
+    this.amount = parseAmount(amount);
+  }
+
+  /**
+   * The amount is in microstacks
+   */
+  ustx(): STXPostCondition {
+    return new STXPostCondition(this.principal, this.conditionCode, this.amount);
+  }
+
+  /**
+   * The amount is in units of the fungible token "address.contract::asset"
+   */
+  ft(assetIdentifier: string): FungiblePostCondition {
+    return new FungiblePostCondition(
+      this.principal,
+      this.conditionCode,
+      this.amount,
+      parseAssetInfoString(assetIdentifier)
+    );
+  }
+}
+
+export class PartialPcNftWithCode {
+  principal: Principal;
+  conditionCode: NonFungibleConditionCode;
+  assetName: ClarityValue;
+
+  constructor(
+    principal: Principal,
+    conditionCode: NonFungibleConditionCode,
+    assetName: ClarityValue
+  ) {
+    this.principal = principal;
+    this.conditionCode = conditionCode;
+    this.assetName = assetName;
+  }
+
+  /**
+   * The token belongs to the non-fungible asset "address.contract::asset"
+   */
+  of(assetIdentifier: string): NonFungiblePostCondition {
+    return new NonFungiblePostCondition(
+      this.principal,
+      this.conditionCode,
+      parseAssetInfoString(assetIdentifier),
+      this.assetName
+    );
+  }
+}
+
+/**
+ * Parses an amount, which must be a non-negative integer that fits the u64 amounts of post
+ * conditions
+ */
+function parseAmount(amount: BigNum | number | bigint | string): BigNum {
+  let value: BigNum | undefined;
+  if (typeof amount === 'number') {
+    value = Number.isSafeInteger(amount) ? new BigNum(amount) : undefined;
+  } else if (typeof amount === 'bigint') {
+    value = new BigNum(amount.toString(10), 10);
+  } else if (typeof amount === 'string') {
+    value = /^-?[0-9]+$/.test(amount) ? new BigNum(amount, 10) : undefined;
+  } else {
+    value = amount;
+  }
+  if (value === undefined || value.isNeg() || value.bitLength() > 64) {
+    throw new Error(`"${amount}" is not a valid amount`);
+  }
+  return value;
+}
+
+/**
+ * Parses a standard ("address") or contract ("address.contract") principal
+ */
+export function parsePrincipalString(principal: string): StandardPrincipal | ContractPrincipal {
+  const [address, contractName, ...rest] = principal.split('.');
+  if (!isAddress(address) || rest.length > 0) {
+    throw new Error(`"${principal}" is not a valid principal`);
+  }
+  if (contractName === undefined) {
+    return new StandardPrincipal(address);
+  }
+  if (!isContractName(contractName)) {
+    throw new Error(`"${contractName}" is not a valid contract name`);
+  }
+  return new ContractPrincipal(address, contractName);
+}
+
+/**
+ * Parses an asset identifier of the form "address.contract::asset"
+ */
+export function parseAssetInfoString(assetIdentifier: string): AssetInfo {
+  const [contractId, assetName, ...rest] = assetIdentifier.split('::');
+  if (assetName === undefined || rest.length > 0) {
+    throw new Error(`"${assetIdentifier}" is not a valid asset identifier`);
+  }
+  const principal = parsePrincipalString(contractId);
+  if (!(principal instanceof ContractPrincipal)) {
+    throw new Error(`"${assetIdentifier}" is not a valid asset identifier`);
+  }
+  if (!isClarityName(assetName)) {
+    throw new Error(`"${assetName}" is not a valid Clarity name`);
+  }
+  return new AssetInfo(principal.address.toString(), principal.contractName.toString(), assetName);
+}
+
+function isAddress(address: string): boolean {
+  try {
+    c32addressDecode(address);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
@@ -1,19 +1,43 @@
 import { PostConditionType, FungibleConditionCode, NonFungibleConditionCode } from './constants';
 
-import { BufferArray, BufferReader } from './utils';
+import { BufferArray, BufferReader, enumToName, enumFromName, bigNumFromDecimal } from './utils';
 
-import { AssetInfo, Principal, LengthPrefixedString } from './types';
+import { AssetInfo, AssetInfoJSON, Principal, PrincipalJSON } from './types';
 
 import { StacksMessage } from './message';
 
+import {
+  ClarityValue,
+  ClarityValueJSON,
+  serializeCV,
+  deserializeCV,
+  cvToJSON,
+  cvFromJSON,
+} from './clarity/';
+
 import * as BigNum from 'bn.js';
 
-export class PostCondition extends StacksMessage {
+/**
+ * JSON representation of a {@link PostCondition}. Condition codes are named after
+ * {@link FungibleConditionCode} or, for non-fungible post conditions,
+ * {@link NonFungibleConditionCode}. The asset name of a non-fungible token is the JSON of its
+ * Clarity value.
+ */
+export interface PostConditionJSON {
+  postConditionType: string;
+  principal?: PrincipalJSON;
+  conditionCode?: string;
+  amount?: string;
+  assetInfo?: AssetInfoJSON;
+  assetName?: ClarityValueJSON;
+}
+
+export class PostCondition extends StacksMessage<PostConditionJSON> {
   postConditionType?: PostConditionType;
   principal?: Principal;
   conditionCode?: FungibleConditionCode | NonFungibleConditionCode;
   assetInfo?: AssetInfo;
-  assetName?: LengthPrefixedString;
+  assetName?: ClarityValue;
   amount?: BigNum;
 
   constructor(
@@ -22,7 +46,7 @@ export class PostCondition extends StacksMessage {
     conditionCode?: FungibleConditionCode | NonFungibleConditionCode,
     amount?: BigNum,
     assetInfo?: AssetInfo,
-    assetName?: string
+    assetName?: ClarityValue
   ) {
     super();
     this.postConditionType = postConditionType;
@@ -30,7 +54,7 @@ export class PostCondition extends StacksMessage {
     this.conditionCode = conditionCode;
     this.amount = amount;
     this.assetInfo = assetInfo;
-    this.assetName = assetName != undefined ? new LengthPrefixedString(assetName) : undefined;
+    this.assetName = assetName;
   }
 
   serialize(): Buffer {
@@ -58,7 +82,7 @@ export class PostCondition extends StacksMessage {
       if (this.assetName === undefined) {
         throw new Error('"assetName" is undefined');
       }
-      bufferArray.push(this.assetName.serialize());
+      bufferArray.push(serializeCV(this.assetName));
     }
 
     if (this.conditionCode === undefined) {
@@ -80,7 +104,10 @@ export class PostCondition extends StacksMessage {
   }
 
   deserialize(bufferReader: BufferReader) {
-    this.postConditionType = bufferReader.readByte() as PostConditionType;
+    this.postConditionType = bufferReader.readEnum<PostConditionType>(
+      PostConditionType,
+      'PostConditionType'
+    );
     this.principal = Principal.deserialize(bufferReader);
 
     if (
@@ -91,18 +118,97 @@ export class PostCondition extends StacksMessage {
     }
 
     if (this.postConditionType === PostConditionType.NonFungible) {
-      this.assetName = LengthPrefixedString.deserialize(bufferReader);
+      this.assetName = deserializeCV(bufferReader);
     }
 
-    this.conditionCode = bufferReader.readByte() as
-      | FungibleConditionCode
-      | NonFungibleConditionCode;
+    if (this.postConditionType === PostConditionType.NonFungible) {
+      this.conditionCode = bufferReader.readEnum<NonFungibleConditionCode>(
+        NonFungibleConditionCode,
+        'NonFungibleConditionCode'
+      );
+    } else {
+      this.conditionCode = bufferReader.readEnum<FungibleConditionCode>(
+        FungibleConditionCode,
+        'FungibleConditionCode'
+      );
+    }
 
     if (
       this.postConditionType === PostConditionType.STX ||
       this.postConditionType === PostConditionType.Fungible
     ) {
-      this.amount = new BigNum(bufferReader.read(8).toString('hex'), 16);
+      this.amount = bufferReader.readUInt64BE();
+    }
+  }
+
+  toJSON(): PostConditionJSON {
+    const json: PostConditionJSON = {
+      postConditionType: enumToName(PostConditionType, this.postConditionType, 'PostConditionType'),
+      principal: this.principal?.toJSON(),
+    };
+    if (
+      this.postConditionType === PostConditionType.Fungible ||
+      this.postConditionType === PostConditionType.NonFungible
+    ) {
+      json.assetInfo = this.assetInfo?.toJSON();
+    }
+    if (this.postConditionType === PostConditionType.NonFungible) {
+      if (this.assetName === undefined) {
+        throw new Error('"assetName" is undefined');
+      }
+      json.assetName = cvToJSON(this.assetName);
+      json.conditionCode = enumToName(
+        NonFungibleConditionCode,
+        this.conditionCode,
+        'NonFungibleConditionCode'
+      );
+    } else {
+      json.conditionCode = enumToName(
+        FungibleConditionCode,
+        this.conditionCode,
+        'FungibleConditionCode'
+      );
+      json.amount = this.amount?.toString(10);
+    }
+    return json;
+  }
+
+  fromJSON(json: PostConditionJSON) {
+    this.postConditionType = enumFromName<PostConditionType>(
+      PostConditionType,
+      json.postConditionType,
+      'PostConditionType'
+    );
+    if (json.principal === undefined) {
+      throw new Error('"principal" is undefined');
+    }
+    this.principal = Principal.fromJSON(json.principal);
+    if (
+      this.postConditionType === PostConditionType.Fungible ||
+      this.postConditionType === PostConditionType.NonFungible
+    ) {
+      if (json.assetInfo === undefined) {
+        throw new Error('"assetInfo" is undefined');
+      }
+      this.assetInfo = AssetInfo.fromJSON(json.assetInfo);
+    }
+    if (this.postConditionType === PostConditionType.NonFungible) {
+      if (json.assetName === undefined) {
+        throw new Error('"assetName" is undefined');
+      }
+      this.assetName = cvFromJSON(json.assetName);
+      this.conditionCode = enumFromName<NonFungibleConditionCode>(
+        NonFungibleConditionCode,
+        json.conditionCode ?? '',
+        'NonFungibleConditionCode'
+      );
+    } else {
+      this.conditionCode = enumFromName<FungibleConditionCode>(
+        FungibleConditionCode,
+        json.conditionCode ?? '',
+        'FungibleConditionCode'
+      );
+      this.amount = bigNumFromDecimal(json.amount, 'amount');
     }
   }
 }
@@ -129,7 +235,7 @@ export class NonFungiblePostCondition extends PostCondition {
     principal?: Principal,
     conditionCode?: NonFungibleConditionCode,
     assetInfo?: AssetInfo,
-    assetName?: string
+    assetName?: ClarityValue
   ) {
     super(PostConditionType.NonFungible, principal, conditionCode, undefined, assetInfo, assetName);
   }
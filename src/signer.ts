@@ -1,8 +1,12 @@
+import * as _ from 'lodash';
+
 import { StacksTransaction } from './transaction';
 
 import { AuthType } from './constants';
 
-import { StacksPrivateKey } from './keys';
+import { SpendingCondition } from './authorization';
+
+import { StacksPrivateKey, MessageSigner } from './keys';
 
 export class TransactionSigner {
   transaction: StacksTransaction;
@@ -11,15 +15,97 @@ export class TransactionSigner {
   checkOversign: boolean;
   checkOverlap: boolean;
 
+  /**
+   * Creates a signer for a transaction that may already carry some signatures, e.g. a partially
+   * signed multisig transaction deserialized from another cosigner. The signatures present are
+   * replayed to recover the sighash the next signature has to be made over.
+   */
   constructor(transaction: StacksTransaction) {
     this.transaction = transaction;
     this.sigHash = transaction.signBegin();
     this.originDone = false;
     this.checkOversign = true;
     this.checkOverlap = true;
+
+    const auth = transaction.auth;
+    if (auth?.spendingCondition !== undefined) {
+      this.sigHash = auth.spendingCondition.replaySigHash(this.sigHash, AuthType.Standard);
+    }
+    if (
+      auth?.authType === AuthType.Sponsored &&
+      auth.sponsorSpendingCondition !== undefined &&
+      auth.sponsorSpendingCondition.numSignatures() > 0
+    ) {
+      this.sigHash = auth.sponsorSpendingCondition.replaySigHash(this.sigHash, AuthType.Sponsored);
+      this.originDone = true;
+    }
+  }
+
+  /**
+   * Creates a signer for the sponsor of a transaction already signed by its origin.
+   *
+   * The sponsor spending condition is set on a copy of the transaction. Signing continues from
+   * the sighash that follows the origin's signatures, so the origin's signatures stay valid.
+   */
+  static createSponsorSigner(
+    transaction: StacksTransaction,
+    sponsorSpendingCondition: SpendingCondition
+  ): TransactionSigner {
+    if (transaction.auth === undefined) {
+      throw new Error('"transaction.auth" is undefined');
+    }
+    if (transaction.auth.authType !== AuthType.Sponsored) {
+      throw new Error('Cannot add sponsor to a non-sponsored transaction');
+    }
+    const originCondition = transaction.auth.spendingCondition;
+    if (originCondition === undefined) {
+      throw new Error('"transaction.auth.spendingCondition" is undefined');
+    }
+    if (originCondition.signaturesRequired === undefined) {
+      throw new Error('"transaction.auth.spendingCondition.signaturesRequired" is undefined');
+    }
+    if (originCondition.numSignatures() < originCondition.signaturesRequired) {
+      throw new Error('Origin must be signed before the sponsor');
+    }
+
+    const tx = _.cloneDeep(transaction);
+    tx.setSponsor(sponsorSpendingCondition);
+
+    const signer = new this(tx);
+    signer.originDone = true;
+    return signer;
   }
 
   signOrigin(privateKey: StacksPrivateKey) {
+    this.checkOriginSignable();
+    this.sigHash = this.transaction.signNextOrigin(this.sigHash, privateKey);
+  }
+
+  /**
+   * Signs the origin with an external signer. Each call must complete before the next signature
+   * is requested, since every signature is made over the sighash following the previous one.
+   */
+  async signOriginWith(signer: MessageSigner): Promise<void> {
+    this.checkOriginSignable();
+    this.sigHash = await this.transaction.signNextOriginWith(this.sigHash, signer);
+  }
+
+  signSponsor(privateKey: StacksPrivateKey) {
+    this.checkSponsorSignable();
+    this.sigHash = this.transaction.signNextSponsor(this.sigHash, privateKey);
+    this.originDone = true;
+  }
+
+  /**
+   * Signs the sponsor with an external signer. As with signOriginWith, calls must not overlap.
+   */
+  async signSponsorWith(signer: MessageSigner): Promise<void> {
+    this.checkSponsorSignable();
+    this.sigHash = await this.transaction.signNextSponsorWith(this.sigHash, signer);
+    this.originDone = true;
+  }
+
+  private checkOriginSignable() {
     if (this.checkOverlap && this.originDone) {
       throw Error('Cannot sign origin after sponsor key');
     }
@@ -41,8 +127,27 @@ export class TransactionSigner {
     ) {
       throw new Error('Origin would have too many signatures');
     }
+  }
 
-    const nextSighash = this.transaction.signNextOrigin(this.sigHash, privateKey);
-    this.sigHash = nextSighash;
+  private checkSponsorSignable() {
+    if (this.transaction.auth === undefined) {
+      throw new Error('"transaction.auth" is undefined');
+    }
+    if (this.transaction.auth.sponsorSpendingCondition === undefined) {
+      throw new Error('"transaction.auth.sponsorSpendingCondition" is undefined');
+    }
+    if (this.transaction.auth.sponsorSpendingCondition.signaturesRequired === undefined) {
+      throw new Error(
+        '"transaction.auth.sponsorSpendingCondition.signaturesRequired" is undefined'
+      );
+    }
+
+    if (
+      this.checkOversign &&
+      this.transaction.auth.sponsorSpendingCondition.numSignatures() >=
+        this.transaction.auth.sponsorSpendingCondition.signaturesRequired
+    ) {
+      throw new Error('Sponsor would have too many signatures');
+    }
   }
 }
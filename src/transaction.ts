@@ -7,11 +7,26 @@ import {
   AnchorMode,
   PostConditionMode,
   AuthType,
+  PubKeyEncoding,
 } from './constants';
 
-import { Authorization, SpendingCondition } from './authorization';
+import {
+  Authorization,
+  SpendingCondition,
+  SpendingAuthorizationField,
+  SpendingConditionVerification,
+  MessageSignature,
+  AuthorizationJSON,
+} from './authorization';
 
-import { BufferArray, BufferReader, txidFromData, sha512_256 } from './utils';
+import {
+  BufferArray,
+  BufferReader,
+  txidFromData,
+  sha512_256,
+  enumToName,
+  enumFromName,
+} from './utils';
 
 import {
   Payload,
@@ -20,17 +35,46 @@ import {
   SmartContractPayload,
   PoisonPayload,
   CoinbasePayload,
+  PayloadJSON,
 } from './payload';
 
 import { LengthPrefixedList } from './types';
 
 import { StacksMessage } from './message';
 
-import { PostCondition } from './postcondition';
+import { DeserializationError } from './errors';
+
+import { PostCondition, PostConditionJSON } from './postcondition';
 
-import { StacksPrivateKey } from './keys';
+import { StacksPrivateKey, StacksPublicKey, MessageSigner } from './keys';
 
-export class StacksTransaction extends StacksMessage {
+/**
+ * Outcome of verifying the signatures of a transaction
+ *
+ * @param  {Boolean} valid - true if all spending conditions are correctly signed
+ * @param  {SpendingConditionVerification} origin - the result for the origin
+ * @param  {SpendingConditionVerification} sponsor - the result for the sponsor, if sponsored
+ */
+export interface TransactionVerification {
+  valid: boolean;
+  origin: SpendingConditionVerification;
+  sponsor?: SpendingConditionVerification;
+}
+
+/**
+ * JSON representation of a {@link StacksTransaction}, see {@link StacksTransaction.toJSON}
+ */
+export interface TransactionJSON {
+  version: string;
+  chainId: string;
+  auth: AuthorizationJSON;
+  anchorMode: string;
+  postConditionMode: string;
+  postConditions: PostConditionJSON[];
+  payload: PayloadJSON;
+}
+
+export class StacksTransaction extends StacksMessage<TransactionJSON> {
   version?: TransactionVersion;
   chainId?: string;
   auth?: Authorization;
@@ -90,23 +134,88 @@ export class StacksTransaction extends StacksMessage {
   }
 
   signNextOrigin(sigHash: string, privateKey: StacksPrivateKey): string {
+    // the origin always signs with the standard auth flag, even in a sponsored transaction
+    return this.signAndAppend(this.originCondition(), sigHash, AuthType.Standard, privateKey);
+  }
+
+  async signNextOriginWith(sigHash: string, signer: MessageSigner): Promise<string> {
+    return this.signAndAppendWith(this.originCondition(), sigHash, AuthType.Standard, signer);
+  }
+
+  signNextSponsor(sigHash: string, privateKey: StacksPrivateKey): string {
+    return this.signAndAppend(this.sponsorCondition(), sigHash, AuthType.Sponsored, privateKey);
+  }
+
+  async signNextSponsorWith(sigHash: string, signer: MessageSigner): Promise<string> {
+    return this.signAndAppendWith(this.sponsorCondition(), sigHash, AuthType.Sponsored, signer);
+  }
+
+  setSponsor(sponsorSpendingCondition: SpendingCondition) {
+    if (this.auth === undefined) {
+      throw new Error('"auth" is undefined');
+    }
+    this.auth.setSponsor(sponsorSpendingCondition);
+  }
+
+  signAndAppend(
+    condition: SpendingCondition,
+    curSigHash: string,
+    authType: AuthType,
+    privateKey: StacksPrivateKey
+  ): string {
+    const sigHashPreSign = this.sigHashPreSign(condition, curSigHash, authType);
+    const signature = privateKey.sign(sigHashPreSign);
+    return this.appendSignature(condition, sigHashPreSign, privateKey.getPublicKey(), signature);
+  }
+
+  /**
+   * Like signAndAppend, but obtains the signature from an external signer. The signature is
+   * checked against the signer's public key before it is appended.
+   */
+  async signAndAppendWith(
+    condition: SpendingCondition,
+    curSigHash: string,
+    authType: AuthType,
+    signer: MessageSigner
+  ): Promise<string> {
+    const publicKey = await signer.getPublicKey();
+    // fail before asking the signer for a signature the condition cannot hold
+    condition.checkSigner(publicKey);
+    const sigHashPreSign = this.sigHashPreSign(condition, curSigHash, authType);
+    const signature = await signer.signMessageHash(sigHashPreSign);
+    if (!signature.verify(sigHashPreSign, publicKey)) {
+      throw new Error('Signature does not match the public key of the signer');
+    }
+    return this.appendSignature(condition, sigHashPreSign, publicKey, signature);
+  }
+
+  private originCondition(): SpendingCondition {
     if (this.auth === undefined) {
       throw new Error('"auth" is undefined');
     }
     if (this.auth.spendingCondition === undefined) {
       throw new Error('"auth.spendingCondition" is undefined');
     }
-    if (this.auth.authType === undefined) {
-      throw new Error('"auth.authType" is undefined');
+    return this.auth.spendingCondition;
+  }
+
+  private sponsorCondition(): SpendingCondition {
+    if (this.auth === undefined) {
+      throw new Error('"auth" is undefined');
+    }
+    if (this.auth.authType !== AuthType.Sponsored) {
+      throw new Error('Cannot sign sponsor of a non-sponsored transaction');
     }
-    return this.signAndAppend(this.auth.spendingCondition, sigHash, this.auth.authType, privateKey);
+    if (this.auth.sponsorSpendingCondition === undefined) {
+      throw new Error('"auth.sponsorSpendingCondition" is undefined');
+    }
+    return this.auth.sponsorSpendingCondition;
   }
 
-  signAndAppend(
+  private sigHashPreSign(
     condition: SpendingCondition,
     curSigHash: string,
-    authType: AuthType,
-    privateKey: StacksPrivateKey
+    authType: AuthType
   ): string {
     if (condition.feeRate === undefined) {
       throw new Error('"condition.feeRate" is undefined');
@@ -114,20 +223,61 @@ export class StacksTransaction extends StacksMessage {
     if (condition.nonce === undefined) {
       throw new Error('"condition.nonce" is undefined');
     }
-    const { nextSig, nextSigHash } = SpendingCondition.nextSignature(
+    return SpendingCondition.makeSigHashPreSign(
       curSigHash,
       authType,
       condition.feeRate,
-      condition.nonce,
-      privateKey
+      condition.nonce
     );
+  }
+
+  private appendSignature(
+    condition: SpendingCondition,
+    sigHashPreSign: string,
+    publicKey: StacksPublicKey,
+    signature: MessageSignature
+  ): string {
     if (condition.singleSig()) {
-      condition.signature = nextSig;
+      condition.checkSigner(publicKey);
+      const pubKeyEncoding = publicKey.compressed()
+        ? PubKeyEncoding.Compressed
+        : PubKeyEncoding.Uncompressed;
+      condition.signature = signature;
+      return SpendingCondition.makeSigHashPostSign(sigHashPreSign, pubKeyEncoding, signature);
     } else {
-      // condition.pushSignature();
+      // the signature replaces the signer's public key field, keeping its key encoding
+      const index = condition.signerFieldIndex(publicKey);
+      const pubKeyEncoding = condition.authFields[index].pubKeyEncoding();
+      condition.authFields[index] = SpendingAuthorizationField.fromSignature(
+        signature,
+        pubKeyEncoding
+      );
+      return SpendingCondition.makeSigHashPostSign(sigHashPreSign, pubKeyEncoding, signature);
+    }
+  }
+
+  verifyOrigin(): SpendingConditionVerification {
+    return this.originCondition().verify(this.signBegin(), AuthType.Standard);
+  }
+
+  verify(): TransactionVerification {
+    if (this.auth === undefined) {
+      throw new Error('"auth" is undefined');
+    }
+    const origin = this.verifyOrigin();
+    if (this.auth.authType !== AuthType.Sponsored) {
+      return { valid: origin.valid, origin };
     }
 
-    return nextSigHash;
+    if (this.auth.sponsorSpendingCondition === undefined) {
+      throw new Error('"auth.sponsorSpendingCondition" is undefined');
+    }
+    // the sponsor's sighash chain continues from the origin's
+    const sponsor = this.auth.sponsorSpendingCondition.verify(
+      origin.nextSigHash,
+      AuthType.Sponsored
+    );
+    return { valid: origin.valid && sponsor.valid, origin, sponsor };
   }
 
   addPostCondition(postCondition: PostCondition) {
@@ -170,15 +320,106 @@ export class StacksTransaction extends StacksMessage {
   }
 
   deserialize(bufferReader: BufferReader) {
-    this.version =
-      bufferReader.readByte() === TransactionVersion.Mainnet
-        ? TransactionVersion.Mainnet
-        : TransactionVersion.Testnet;
+    this.version = bufferReader.readEnum<TransactionVersion>(
+      TransactionVersion,
+      'TransactionVersion'
+    );
     this.chainId = bufferReader.read(4).toString('hex');
     this.auth = Authorization.deserialize(bufferReader);
-    this.anchorMode = bufferReader.readByte() as AnchorMode;
-    this.postConditionMode = bufferReader.readByte() as PostConditionMode;
+    this.anchorMode = bufferReader.readEnum<AnchorMode>(AnchorMode, 'AnchorMode');
+    this.postConditionMode = bufferReader.readEnum<PostConditionMode>(
+      PostConditionMode,
+      'PostConditionMode'
+    );
     this.postConditions = LengthPrefixedList.deserialize(bufferReader, PostCondition);
     this.payload = Payload.deserialize(bufferReader);
   }
+
+  /**
+   * Returns a readable representation of this transaction, also used by JSON.stringify.
+   * Enums are given by name, amounts as decimal strings, addresses in c32check form and
+   * Clarity values by {@link cvToJSON}. {@link StacksMessage.fromJSON} restores the
+   * transaction with identical bytes.
+   */
+  toJSON(): TransactionJSON {
+    if (this.auth === undefined) {
+      throw new Error('"auth" is undefined');
+    }
+    if (this.payload === undefined) {
+      throw new Error('"payload" is undefined');
+    }
+    return {
+      version: enumToName(TransactionVersion, this.version, 'TransactionVersion'),
+      chainId: this.chainId ?? '',
+      auth: this.auth.toJSON(),
+      anchorMode: enumToName(AnchorMode, this.anchorMode, 'AnchorMode'),
+      postConditionMode: enumToName(PostConditionMode, this.postConditionMode, 'PostConditionMode'),
+      postConditions: this.postConditions.toJSON(),
+      payload: this.payload.toJSON(),
+    };
+  }
+
+  fromJSON(json: TransactionJSON) {
+    this.version = enumFromName<TransactionVersion>(
+      TransactionVersion,
+      json.version,
+      'TransactionVersion'
+    );
+    this.chainId = json.chainId;
+    this.auth = Authorization.fromJSON(json.auth);
+    this.anchorMode = enumFromName<AnchorMode>(AnchorMode, json.anchorMode, 'AnchorMode');
+    this.postConditionMode = enumFromName<PostConditionMode>(
+      PostConditionMode,
+      json.postConditionMode,
+      'PostConditionMode'
+    );
+    this.postConditions = LengthPrefixedList.fromJSON(json.postConditions, PostCondition);
+    this.payload = Payload.fromJSON(json.payload);
+  }
+}
+
+/**
+ * Deserializes a complete transaction from its raw bytes
+ *
+ * Unlike {@link StacksTransaction.deserialize}, the data must hold exactly one transaction:
+ * truncated data and trailing bytes are rejected. Every error is reported as a
+ * {@link DeserializationError} carrying the byte offset at which it was found.
+ *
+ * @param  {String | Buffer} data - the serialized transaction, as a hex string or buffer
+ *
+ * @return {StacksTransaction}
+ */
+export function deserializeTransaction(data: string | Buffer): StacksTransaction {
+  let buffer: Buffer;
+  if (typeof data === 'string') {
+    const hex = data.startsWith('0x') ? data.slice(2) : data;
+    const invalidIndex = hex.search(/[^0-9a-fA-F]/);
+    if (invalidIndex !== -1 || hex.length % 2 !== 0) {
+      // an odd trailing digit leaves the last byte incomplete
+      const index = invalidIndex === -1 ? hex.length - 1 : invalidIndex;
+      throw new DeserializationError('Invalid hex string', Math.floor(index / 2));
+    }
+    buffer = Buffer.from(hex, 'hex');
+  } else {
+    buffer = data;
+  }
+
+  const bufferReader = new BufferReader(buffer);
+  let transaction: StacksTransaction;
+  try {
+    transaction = StacksTransaction.deserialize(bufferReader);
+  } catch (error) {
+    if (error instanceof DeserializationError) {
+      throw error;
+    }
+    throw new DeserializationError(error.message, bufferReader.index);
+  }
+
+  if (bufferReader.remaining() > 0) {
+    throw new DeserializationError(
+      `Unexpected ${bufferReader.remaining()} trailing bytes`,
+      bufferReader.index
+    );
+  }
+  return transaction;
 }
@@ -1,6 +1,7 @@
 import {
   MAX_STRING_LENGTH_BYTES,
   MEMO_MAX_LENGTH_BYTES,
+  MAX_MULTISIG_PUBKEYS,
   PrincipalType,
   TransactionVersion,
   AddressHashMode,
@@ -16,12 +17,17 @@ import {
   hexStringToInt,
   exceedsMaxLengthBytes,
   hash_p2pkh,
+  hash_p2sh,
+  hash_p2wpkh,
+  hash_p2wsh,
   rightPadHexToLength,
+  enumToName,
+  enumFromName,
 } from './utils';
 
 import { c32addressDecode, c32address } from 'c32check';
 
-import { StacksMessageCodec, StacksMessage } from './message';
+import { StacksMessageCodec, StacksMessage, MessageJSON } from './message';
 
 /**
  * Translates the tx auth hash mode to the corresponding address version.
@@ -57,7 +63,7 @@ export function addressHashModeToVersion(
   }
 }
 
-export class Address extends StacksMessage {
+export class Address extends StacksMessage<string> {
   version?: AddressVersion;
   data?: string;
 
@@ -116,9 +122,25 @@ export class Address extends StacksMessage {
       }
     }
 
+    if (hashMode === AddressHashMode.SerializeP2SH || hashMode === AddressHashMode.SerializeP2WSH) {
+      if (publicKeys.length > MAX_MULTISIG_PUBKEYS) {
+        throw Error(`Multisig address can contain at most ${MAX_MULTISIG_PUBKEYS} public keys`);
+      }
+      if (numSigs < 1 || numSigs > publicKeys.length) {
+        throw Error('Invalid number of signatures');
+      }
+    }
+
+    const pubKeys = publicKeys.map(publicKey => publicKey.toString());
     switch (hashMode) {
       case AddressHashMode.SerializeP2PKH:
-        return Address.fromData(version, hash_p2pkh(publicKeys[0].toString()));
+        return Address.fromData(version, hash_p2pkh(pubKeys[0]));
+      case AddressHashMode.SerializeP2WPKH:
+        return Address.fromData(version, hash_p2wpkh(pubKeys[0]));
+      case AddressHashMode.SerializeP2SH:
+        return Address.fromData(version, hash_p2sh(numSigs, pubKeys));
+      case AddressHashMode.SerializeP2WSH:
+        return Address.fromData(version, hash_p2wsh(numSigs, pubKeys));
       default:
         return new Address('');
     }
@@ -153,12 +175,31 @@ export class Address extends StacksMessage {
   }
 
   deserialize(bufferReader: BufferReader) {
-    this.version = bufferReader.readByte();
+    this.version = bufferReader.readUInt8();
     this.data = bufferReader.read(20).toString('hex');
   }
+
+  toJSON(): string {
+    return this.toC32AddressString();
+  }
+
+  fromJSON(json: string) {
+    const addressData = c32addressDecode(json);
+    this.version = addressData[0];
+    this.data = addressData[1];
+  }
 }
 
-export class Principal extends StacksMessage {
+/**
+ * JSON representation of a {@link Principal}. Origin principals have no address.
+ */
+export interface PrincipalJSON {
+  principalType: string;
+  address?: string;
+  contractName?: string;
+}
+
+export class Principal extends StacksMessage<PrincipalJSON> {
   principalType?: PrincipalType;
   address: Address;
   contractName: LengthPrefixedString;
@@ -176,6 +217,9 @@ export class Principal extends StacksMessage {
       throw new Error('"principalType" is undefined');
     }
     bufferArray.appendByte(this.principalType);
+    if (this.principalType == PrincipalType.Origin) {
+      return bufferArray.concatBuffer();
+    }
     bufferArray.push(this.address.serialize());
     if (this.principalType == PrincipalType.Contract) {
       bufferArray.push(this.contractName.serialize());
@@ -184,12 +228,57 @@ export class Principal extends StacksMessage {
   }
 
   deserialize(bufferReader: BufferReader) {
-    this.principalType = bufferReader.readByte() as PrincipalType;
+    this.principalType = bufferReader.readEnum<PrincipalType>(PrincipalType, 'PrincipalType');
+    if (this.principalType == PrincipalType.Origin) {
+      return;
+    }
     this.address = Address.deserialize(bufferReader);
     if (this.principalType == PrincipalType.Contract) {
       this.contractName = LengthPrefixedString.deserialize(bufferReader);
     }
   }
+
+  toJSON(): PrincipalJSON {
+    const json: PrincipalJSON = {
+      principalType: enumToName(PrincipalType, this.principalType, 'PrincipalType'),
+    };
+    if (this.principalType == PrincipalType.Origin) {
+      return json;
+    }
+    json.address = this.address.toJSON();
+    if (this.principalType == PrincipalType.Contract) {
+      json.contractName = this.contractName.toJSON();
+    }
+    return json;
+  }
+
+  fromJSON(json: PrincipalJSON) {
+    this.principalType = enumFromName<PrincipalType>(
+      PrincipalType,
+      json.principalType,
+      'PrincipalType'
+    );
+    if (this.principalType == PrincipalType.Origin) {
+      return;
+    }
+    if (json.address === undefined) {
+      throw new Error('"address" is undefined');
+    }
+    this.address = Address.fromJSON(json.address);
+    if (this.principalType == PrincipalType.Contract) {
+      this.contractName = LengthPrefixedString.fromJSON(json.contractName ?? '');
+    }
+  }
+}
+
+/**
+ * The origin of the transaction the principal is used in, whose address need not be known
+ * when the transaction is built
+ */
+export class OriginPrincipal extends Principal {
+  constructor() {
+    super(PrincipalType.Origin);
+  }
 }
 
 export class StandardPrincipal extends Principal {
@@ -204,7 +293,7 @@ export class ContractPrincipal extends Principal {
   }
 }
 
-export class LengthPrefixedString extends StacksMessage {
+export class LengthPrefixedString extends StacksMessage<string> {
   content?: string;
   lengthPrefixBytes: number;
   maxLengthBytes: number;
@@ -237,8 +326,15 @@ export class LengthPrefixedString extends StacksMessage {
   }
 
   deserialize(bufferReader: BufferReader) {
-    const length = bufferReader.read(this.lengthPrefixBytes).toString('hex');
-    this.content = bufferReader.read(hexStringToInt(length)).toString();
+    this.content = bufferReader.readVarBytes(this.lengthPrefixBytes).toString();
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  fromJSON(json: string) {
+    this.content = json;
   }
 }
 
@@ -250,7 +346,7 @@ export class CodeBodyString extends LengthPrefixedString {
   }
 }
 
-export class MemoString extends StacksMessage {
+export class MemoString extends StacksMessage<string> {
   content?: string;
 
   constructor(content?: string) {
@@ -282,9 +378,30 @@ export class MemoString extends StacksMessage {
   deserialize(bufferReader: BufferReader) {
     this.content = bufferReader.read(MEMO_MAX_LENGTH_BYTES).toString();
   }
+
+  toJSON(): string {
+    // the zero padding is restored on serialization
+    return this.toString().replace(/\u0000+$/, '');
+  }
+
+  fromJSON(json: string) {
+    if (exceedsMaxLengthBytes(json, MEMO_MAX_LENGTH_BYTES)) {
+      throw new Error(`Memo exceeds maximum length of ${MEMO_MAX_LENGTH_BYTES.toString()} bytes`);
+    }
+    this.content = json;
+  }
 }
 
-export class AssetInfo extends StacksMessage {
+/**
+ * JSON representation of an {@link AssetInfo}
+ */
+export interface AssetInfoJSON {
+  address: string;
+  contractName: string;
+  assetName: string;
+}
+
+export class AssetInfo extends StacksMessage<AssetInfoJSON> {
   address: Address;
   contractName: LengthPrefixedString;
   assetName: LengthPrefixedString;
@@ -311,10 +428,24 @@ export class AssetInfo extends StacksMessage {
     this.contractName = LengthPrefixedString.deserialize(bufferReader);
     this.assetName = LengthPrefixedString.deserialize(bufferReader);
   }
+
+  toJSON(): AssetInfoJSON {
+    return {
+      address: this.address.toJSON(),
+      contractName: this.contractName.toJSON(),
+      assetName: this.assetName.toJSON(),
+    };
+  }
+
+  fromJSON(json: AssetInfoJSON) {
+    this.address = Address.fromJSON(json.address);
+    this.contractName = LengthPrefixedString.fromJSON(json.contractName);
+    this.assetName = LengthPrefixedString.fromJSON(json.assetName);
+  }
 }
 
 export class LengthPrefixedList<T extends StacksMessage> extends Array
-  implements StacksMessageCodec {
+  implements StacksMessageCodec<MessageJSON<T>[]> {
   length = 0;
   lengthPrefixBytes: number;
   typeConstructor?: new () => T;
@@ -335,7 +466,7 @@ export class LengthPrefixedList<T extends StacksMessage> extends Array
   }
 
   deserialize(bufferReader: BufferReader) {
-    const length = hexStringToInt(bufferReader.read(this.lengthPrefixBytes).toString('hex'));
+    const length = bufferReader.read(this.lengthPrefixBytes).readUIntBE(0, this.lengthPrefixBytes);
     if (this.typeConstructor === undefined) {
       throw new Error('"typeConstructor" is undefined');
     }
@@ -346,6 +477,21 @@ export class LengthPrefixedList<T extends StacksMessage> extends Array
     }
   }
 
+  toJSON(): MessageJSON<T>[] {
+    return Array.from(this, (item: T) => item.toJSON() as MessageJSON<T>);
+  }
+
+  fromJSON(json: MessageJSON<T>[]) {
+    if (this.typeConstructor === undefined) {
+      throw new Error('"typeConstructor" is undefined');
+    }
+    for (let index = 0; index < json.length; index++) {
+      const item = new this.typeConstructor();
+      item.fromJSON(json[index]);
+      this.push(item);
+    }
+  }
+
   static fromArray<T extends StacksMessage>(array: Array<T>): LengthPrefixedList<T> {
     const list = new LengthPrefixedList<T>();
     if (array) {
@@ -364,4 +510,13 @@ export class LengthPrefixedList<T extends StacksMessage> extends Array
     list.deserialize(bufferReader);
     return list;
   }
+
+  static fromJSON<T extends StacksMessage>(
+    json: MessageJSON<T>[],
+    typeConstructor: new () => T
+  ): LengthPrefixedList<T> {
+    const list = new LengthPrefixedList<T>(typeConstructor);
+    list.fromJSON(json);
+    return list;
+  }
 }
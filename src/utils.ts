@@ -4,6 +4,12 @@ import * as RIPEMD160 from 'ripemd160';
 
 import * as randombytes from 'randombytes';
 
+import * as BigNum from 'bn.js';
+
+import { DeserializationError, BufferOutOfBoundsError } from './errors';
+
+import { CLARITY_INT_SIZE } from './constants';
+
 export { randombytes as randomBytes };
 
 export class BufferArray extends Array<Buffer> {
@@ -32,7 +38,18 @@ export class BufferReader {
     this.index = 0;
   }
 
+  /**
+   * Reads a number of bytes, throwing a {@link BufferOutOfBoundsError} if fewer remain
+   *
+   * @param  {Number} bytes - the number of bytes to read
+   * @param  {Boolean} incrementIndex - false to peek without advancing the read position
+   *
+   * @return {Buffer} a copy of the bytes read
+   */
   read(bytes: number, incrementIndex = true): Buffer {
+    if (bytes > this.remaining()) {
+      throw new BufferOutOfBoundsError(bytes, this.remaining(), this.index);
+    }
     const readBuffer = Buffer.alloc(bytes);
     this.buffer.copy(readBuffer, 0, this.index, this.index + bytes);
     if (incrementIndex) {
@@ -42,11 +59,59 @@ export class BufferReader {
   }
 
   readByte(incrementIndex = true): number {
-    const val = this.buffer[this.index];
-    if (incrementIndex) {
-      this.index += 1;
+    return this.read(1, incrementIndex)[0];
+  }
+
+  readUInt8(): number {
+    return this.read(1).readUInt8(0);
+  }
+
+  readUInt16BE(): number {
+    return this.read(2).readUInt16BE(0);
+  }
+
+  readUInt32BE(): number {
+    return this.read(4).readUInt32BE(0);
+  }
+
+  readUInt64BE(): BigNum {
+    return new BigNum(this.read(8).toString('hex'), 16);
+  }
+
+  /**
+   * Reads bytes prefixed with their big-endian length
+   *
+   * @param  {Number} lengthPrefixBytes - the size of the length prefix in bytes
+   *
+   * @return {Buffer}
+   */
+  readVarBytes(lengthPrefixBytes = 4): Buffer {
+    const length = this.read(lengthPrefixBytes).readUIntBE(0, lengthPrefixBytes);
+    return this.read(length);
+  }
+
+  /**
+   * Returns the number of bytes left to read
+   */
+  remaining(): number {
+    return Math.max(this.buffer.length - this.index, 0);
+  }
+
+  /**
+   * Reads a byte and checks that it is a member of a numeric enum
+   *
+   * @param  {Object} enumVariable - the enum the byte must belong to
+   * @param  {String} enumName - the enum name used in the error message
+   *
+   * @return {Number} the enum member
+   */
+  readEnum<T extends number>(enumVariable: { [key: number]: string }, enumName: string): T {
+    const offset = this.index;
+    const value = this.readUInt8();
+    if (enumVariable[value] === undefined) {
+      throw new DeserializationError(`Invalid ${enumName} 0x${intToHexString(value, 1)}`, offset);
     }
-    return val;
+    return value as T;
   }
 
   setIndex(index: number) {
@@ -54,6 +119,65 @@ export class BufferReader {
   }
 }
 
+/**
+ * Returns the name of a numeric enum member, for use in JSON
+ *
+ * @param  {Object} enumVariable - the enum the value belongs to
+ * @param  {Number} value - the enum member
+ * @param  {String} enumName - the enum name used in the error message
+ *
+ * @return {String}
+ */
+export function enumToName(
+  enumVariable: { [key: number]: string },
+  value: number | undefined,
+  enumName: string
+): string {
+  if (value === undefined || enumVariable[value] === undefined) {
+    throw new Error(`Invalid ${enumName} ${value}`);
+  }
+  return enumVariable[value];
+}
+
+/**
+ * Returns the numeric enum member with the given name, as produced by {@link enumToName}
+ *
+ * @param  {Object} enumVariable - the enum to look the name up in
+ * @param  {String} name - the member name
+ * @param  {String} enumName - the enum name used in the error message
+ *
+ * @return {Number}
+ */
+export function enumFromName<T extends number>(
+  enumVariable: { [key: string]: string | number },
+  name: string,
+  enumName: string
+): T {
+  const value = enumVariable[name];
+  if (typeof value !== 'number') {
+    throw new Error(`Invalid ${enumName} "${name}"`);
+  }
+  return value as T;
+}
+
+/**
+ * Parses an unsigned integer written in decimal, as amounts, fees and nonces are in JSON
+ *
+ * @param  {String} value - the decimal digits
+ * @param  {String} name - the field name used in the error message
+ *
+ * @return {BigNum}
+ */
+export function bigNumFromDecimal(value: string | undefined, name: string): BigNum {
+  if (value === undefined) {
+    throw new Error(`"${name}" is undefined`);
+  }
+  if (!/^[0-9]+$/.test(value)) {
+    throw new Error(`Invalid ${name} "${value}"`);
+  }
+  return new BigNum(value, 10);
+}
+
 export const leftPadHex = (hexString: string): string =>
   hexString.length % 2 == 0 ? hexString : `0${hexString}`;
 
@@ -121,7 +245,51 @@ export const hash_p2pkh = (input: string) => {
   return hash160(input);
 };
 
+const multiSigRedeemScript = (numSigs: number, pubKeys: string[]): string => {
+  // OP_m <pubkey_1> ... <pubkey_n> OP_n OP_CHECKMULTISIG
+  const bufferArray: BufferArray = new BufferArray();
+  bufferArray.appendByte(0x50 + numSigs);
+  pubKeys.forEach(pubKey => {
+    const pubKeyBuffer = Buffer.from(pubKey, 'hex');
+    bufferArray.appendByte(pubKeyBuffer.byteLength);
+    bufferArray.push(pubKeyBuffer);
+  });
+  bufferArray.appendByte(0x50 + pubKeys.length);
+  bufferArray.appendByte(0xae);
+  return bufferArray.concatBuffer().toString('hex');
+};
+
+export const hash_p2sh = (numSigs: number, pubKeys: string[]) => {
+  return hash160(multiSigRedeemScript(numSigs, pubKeys));
+};
+
+export const hash_p2wpkh = (input: string) => {
+  // segwit v0 witness program: OP_0 <20-byte pubkey hash>
+  const witnessProgram = '0014' + hash160(input);
+  return hash160(witnessProgram);
+};
+
+export const hash_p2wsh = (numSigs: number, pubKeys: string[]) => {
+  // segwit v0 witness program: OP_0 <32-byte redeem script hash>
+  const redeemScript = Buffer.from(multiSigRedeemScript(numSigs, pubKeys), 'hex');
+  const witnessProgram = '0020' + new sha256().update(redeemScript).digest('hex');
+  return hash160(witnessProgram);
+};
+
 export function isClarityName(name: string) {
   const regex = /^[a-zA-Z]([a-zA-Z0-9]|[-_!?+<>=/*])*$|^[-+=/*]$|^[<>]=?$/;
   return regex.test(name) && name.length < 128;
 }
+
+/**
+ * Whether an integer fits a Clarity int, i.e. -2^127 <= value < 2^127
+ */
+export function isClarityInt(value: BigNum) {
+  const limit = new BigNum(1).shln(CLARITY_INT_SIZE - 1);
+  return value.gte(limit.neg()) && value.lt(limit);
+}
+
+export function isContractName(name: string) {
+  const regex = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+  return regex.test(name) && name.length <= 40;
+}
@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+
+import {
+  abiFromJSON,
+  abiToJSON,
+  getAbiFunction,
+  encodeFunctionArgs,
+  argToCV,
+  ClarityAbi,
+  ClarityAbiFunction,
+  ClarityArgValue,
+} from '../../src/abi';
+
+import { makeUnsignedContractCall } from '../../src/builders';
+
+import { StacksPrivateKey } from '../../src/keys';
+
+import {
+  serializeCV,
+  bufferCV,
+  intCV,
+  uintCV,
+  trueCV,
+  noneCV,
+  someCV,
+  listCV,
+  tupleCV,
+  stringAsciiCV,
+  stringUtf8CV,
+  standardPrincipalCV,
+  contractPrincipalCV,
+  responseErrorCV,
+  ClarityValue,
+} from '../../src/clarity';
+
+import * as BigNum from 'bn.js';
+
+const address = 'SP2JXKMSH007NPYAQHKJPQMAQYAD90NQGTVJVQ02B';
+const publicKey = new StacksPrivateKey(
+  'e494f188c2d35887531ba474c433b1e41fadd8eb824aca983447fd4bb8b277a801'
+)
+  .getPublicKey()
+  .toString();
+const kvStoreAbi = abiFromJSON(
+  fs.readFileSync('./tests/src/contracts/kv-store-abi.json').toString()
+);
+
+const registerFunction: ClarityAbiFunction = {
+  name: 'register',
+  access: 'public',
+  args: [
+    { name: 'owner', type: { type: 'principal' } },
+    { name: 'amount', type: { type: 'uint' } },
+    { name: 'delta', type: { type: 'int' } },
+    { name: 'label', type: { type: 'string-ascii', length: 8 } },
+    { name: 'memo', type: { type: 'optional', value: { type: 'string-utf8', length: 4 } } },
+    {
+      name: 'entries',
+      type: {
+        type: 'list',
+        length: 2,
+        entry: {
+          type: 'tuple',
+          fields: { id: { type: 'uint' }, hash: { type: 'buff', length: 2 } },
+        },
+      },
+    },
+    { name: 'result', type: { type: 'response', ok: { type: 'bool' }, err: { type: 'int' } } },
+  ],
+  output: { type: 'response', ok: { type: 'bool' }, err: { type: 'no-type' } },
+};
+
+function toHex(values: ClarityValue[]): string[] {
+  return values.map(value => serializeCV(value).toString('hex'));
+}
+
+test('Load ABI from JSON', () => {
+  const getValue = getAbiFunction(kvStoreAbi, 'get-value');
+  expect(getValue).toEqual({
+    name: 'get-value',
+    access: 'public',
+    args: [{ name: 'key', type: { type: 'buff', length: 32 } }],
+    output: { type: 'response', ok: { type: 'buff', length: 32 }, err: { type: 'int' } },
+  });
+  expect(getAbiFunction(kvStoreAbi, 'set-value').output).toEqual({
+    type: 'response',
+    ok: { type: 'bool' },
+    err: { type: 'no-type' },
+  });
+  expect(kvStoreAbi.maps).toEqual([
+    {
+      name: 'store',
+      key: { type: 'tuple', fields: { key: { type: 'buff', length: 32 } } },
+      value: { type: 'tuple', fields: { value: { type: 'buff', length: 32 } } },
+    },
+  ]);
+  expect(kvStoreAbi.fungibleTokens).toEqual([]);
+  expect(() => getAbiFunction(kvStoreAbi, 'delete-value')).toThrow(
+    '"delete-value" is not a function of the contract'
+  );
+
+  const abi: ClarityAbi = {
+    functions: [registerFunction],
+    variables: [{ name: 'counter', type: { type: 'uint' }, access: 'variable' }],
+    maps: [],
+    fungibleTokens: ['coin'],
+    nonFungibleTokens: [],
+  };
+  expect(abiFromJSON(abiToJSON(abi))).toEqual(abi);
+
+  const withFunction = (fn: object) =>
+    JSON.stringify({ functions: [{ name: 'f', access: 'public', args: [], ...fn }] });
+  const invalidTypes: unknown[] = ['foo', null, 5, { buffer: {} }, { tuple: 5 }, { list: null }];
+  invalidTypes.forEach(type => {
+    expect(() => abiFromJSON(withFunction({ args: [{ name: 'a', type }] }))).toThrow(
+      `Invalid Clarity type ${JSON.stringify(type)}`
+    );
+  });
+  expect(() => abiFromJSON(withFunction({ args: [{ name: 'a' }] }))).toThrow('"type" is undefined');
+  expect(() => abiFromJSON(withFunction({ args: [{ type: 'bool' }] }))).toThrow(
+    'Invalid argument of function "f", expected a name and type'
+  );
+  expect(() => abiFromJSON(withFunction({ args: undefined }))).toThrow(
+    'Invalid args of function "f", expected an array'
+  );
+  expect(() => abiFromJSON(withFunction({ access: 'external' }))).toThrow(
+    'Invalid access "external" of function "f"'
+  );
+  expect(() => abiFromJSON(withFunction({ outputs: 'bool' }))).toThrow(
+    'Invalid outputs of function "f", expected an object'
+  );
+  expect(() => abiFromJSON(withFunction({ outputs: { type: 'foo' } }))).toThrow(
+    'Invalid Clarity type "foo"'
+  );
+  expect(abiToJSON(abi).functions[0].args[5].type).toEqual({
+    list: {
+      type: {
+        tuple: [
+          { name: 'id', type: 'uint128' },
+          { name: 'hash', type: { buffer: { length: 2 } } },
+        ],
+      },
+      length: 2,
+    },
+  });
+});
+
+test('Encode function arguments', () => {
+  const expected = [
+    standardPrincipalCV(address),
+    uintCV('340282366920938463463374607431768211455'),
+    intCV(-5),
+    stringAsciiCV('alice'),
+    someCV(stringUtf8CV('🌾')),
+    listCV([tupleCV({ id: uintCV(1), hash: bufferCV(Buffer.from('0102', 'hex')) })]),
+    responseErrorCV(intCV(3)),
+  ];
+  const args = [
+    address,
+    '340282366920938463463374607431768211455',
+    new BigNum(-5),
+    'alice',
+    '🌾',
+    [{ id: 1, hash: Buffer.from('0102', 'hex') }],
+    { err: 3 },
+  ];
+  expect(toHex(encodeFunctionArgs(registerFunction, args))).toEqual(toHex(expected));
+
+  const byName = encodeFunctionArgs(registerFunction, {
+    owner: address,
+    amount: '340282366920938463463374607431768211455',
+    delta: -5,
+    label: 'alice',
+    memo: '🌾',
+    entries: [{ hash: Buffer.from('0102', 'hex'), id: new BigNum(1) }],
+    result: { err: '3' },
+  });
+  expect(toHex(byName)).toEqual(toHex(expected));
+
+  expect(serializeCV(argToCV(`${address}.vault`, { type: 'principal' }))).toEqual(
+    serializeCV(contractPrincipalCV(address, 'vault'))
+  );
+  expect(serializeCV(argToCV(null, { type: 'optional', value: { type: 'int' } }))).toEqual(
+    serializeCV(noneCV())
+  );
+  expect(serializeCV(argToCV(true, { type: 'bool' }))).toEqual(serializeCV(trueCV()));
+  expect(serializeCV(argToCV('170141183460469231731687303715884105727', { type: 'int' }))).toEqual(
+    serializeCV(intCV('170141183460469231731687303715884105727'))
+  );
+  expect(serializeCV(argToCV('-170141183460469231731687303715884105728', { type: 'int' }))).toEqual(
+    serializeCV(intCV('-170141183460469231731687303715884105728'))
+  );
+});
+
+test('Invalid function arguments', () => {
+  const args: ClarityArgValue[] = [
+    address,
+    1,
+    -1,
+    'alice',
+    null,
+    [{ id: 1, hash: Buffer.from('0102', 'hex') }],
+    { ok: true },
+  ];
+  const withArg = (index: number, value: ClarityArgValue) =>
+    args.map((arg, argIndex) => (argIndex === index ? value : arg));
+
+  expect(() => encodeFunctionArgs(registerFunction, args.slice(1))).toThrow(
+    'Expected 7 arguments for "register", got 6'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, { owner: address })).toThrow(
+    'Missing argument "amount" for "register"'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, { owners: address })).toThrow(
+    'Unexpected argument "owners" for "register"'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, withArg(0, 'alice'))).toThrow(
+    'Invalid argument "owner": expected principal, found "alice"'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, withArg(1, -1))).toThrow(
+    'Invalid argument "amount": expected uint, found -1'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, withArg(1, 1.5))).toThrow(
+    'Invalid argument "amount": expected uint, found 1.5'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, withArg(2, '1e3'))).toThrow(
+    'Invalid argument "delta": expected int, found "1e3"'
+  );
+  expect(() =>
+    encodeFunctionArgs(registerFunction, withArg(1, '340282366920938463463374607431768211456'))
+  ).toThrow('Invalid argument "amount": 340282366920938463463374607431768211456 is out of range');
+  expect(() =>
+    encodeFunctionArgs(registerFunction, withArg(2, '170141183460469231731687303715884105728'))
+  ).toThrow('Invalid argument "delta": 170141183460469231731687303715884105728 is out of range');
+  expect(() =>
+    encodeFunctionArgs(
+      registerFunction,
+      withArg(
+        2,
+        new BigNum(1)
+          .shln(127)
+          .neg()
+          .subn(1)
+      )
+    )
+  ).toThrow('Invalid argument "delta": -170141183460469231731687303715884105729 is out of range');
+  expect(() => encodeFunctionArgs(registerFunction, withArg(3, 'alice and bob'))).toThrow(
+    'Invalid argument "label": string of 13 characters exceeds (string-ascii 8)'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, withArg(3, 'café'))).toThrow(
+    'Invalid argument "label": expected (string-ascii 8), found "café"'
+  );
+  expect(() =>
+    encodeFunctionArgs(registerFunction, withArg(5, [{ id: 1, hash: Buffer.alloc(3) }]))
+  ).toThrow('Invalid argument "entries[0].hash": buffer of 3 bytes exceeds (buff 2)');
+  expect(() => encodeFunctionArgs(registerFunction, withArg(5, [{ id: 1 }]))).toThrow(
+    'Invalid argument "entries[0]": missing tuple field "hash"'
+  );
+  expect(() =>
+    encodeFunctionArgs(registerFunction, withArg(5, [{ id: 1, hash: Buffer.alloc(0), x: 1 }]))
+  ).toThrow('Invalid argument "entries[0]": unexpected tuple field "x"');
+  const entry = { id: 1, hash: Buffer.alloc(2) };
+  expect(() => encodeFunctionArgs(registerFunction, withArg(5, [entry, entry, entry]))).toThrow(
+    'Invalid argument "entries": list of 3 entries exceeds (list 2 (tuple (id uint) (hash (buff 2))))'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, withArg(6, { ok: 1 }))).toThrow(
+    'Invalid argument "result.ok": expected bool, found 1'
+  );
+  expect(() => encodeFunctionArgs(registerFunction, withArg(6, true))).toThrow(
+    'Invalid argument "result": expected (response bool int), found true'
+  );
+});
+
+test('Make contract-call checked against the ABI', () => {
+  const feeRate = new BigNum(0);
+  const key = bufferCV(Buffer.alloc(32));
+  const options = { abi: kvStoreAbi };
+
+  const transaction = makeUnsignedContractCall(
+    address,
+    'kv-store',
+    'set-value',
+    encodeFunctionArgs(getAbiFunction(kvStoreAbi, 'set-value'), [
+      Buffer.alloc(32),
+      Buffer.alloc(1),
+    ]),
+    feeRate,
+    publicKey,
+    options
+  );
+  expect(transaction.payload!.functionArgs).toHaveLength(2);
+
+  expect(() =>
+    makeUnsignedContractCall(address, 'kv-store', 'get-value', [], feeRate, publicKey, options)
+  ).toThrow('Expected 1 arguments for "get-value", got 0');
+  expect(() =>
+    makeUnsignedContractCall(
+      address,
+      'kv-store',
+      'get-value',
+      [bufferCV(Buffer.alloc(33))],
+      feeRate,
+      publicKey,
+      options
+    )
+  ).toThrow('Invalid argument "key": buffer of 33 bytes exceeds (buff 32)');
+  expect(() =>
+    makeUnsignedContractCall(address, 'kv-store', 'get-value', [intCV(1)], feeRate, publicKey, {
+      abi: kvStoreAbi,
+    })
+  ).toThrow('Invalid argument "key": expected (buff 32), found int');
+  expect(() =>
+    makeUnsignedContractCall(address, 'kv-store', 'get', [key], feeRate, publicKey, options)
+  ).toThrow('"get" is not a function of the contract');
+
+  const readOnly = {
+    ...kvStoreAbi,
+    functions: [{ ...getAbiFunction(kvStoreAbi, 'get-value'), access: 'read_only' as const }],
+  };
+  expect(() =>
+    makeUnsignedContractCall(address, 'kv-store', 'get-value', [key], feeRate, publicKey, {
+      abi: readOnly,
+    })
+  ).toThrow('"get-value" is not a public function');
+});
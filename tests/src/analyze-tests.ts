@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+
+import { analyzeContract, parseTypeSignature } from '../../src/analyze';
+
+import { abiFromJSON, abiToJSON } from '../../src/abi';
+
+import { signatureToString } from '../../src/clarity';
+
+import { ClarityParseError } from '../../src/errors';
+
+const tokenContract = `
+;; A token with a registry of holders (and a "fake" (define-map) in a string)
+(define-fungible-token coin u1000000)
+(define-non-fungible-token ticket { event: (string-ascii 16), seat: uint })
+(define-data-var owner principal tx-sender)
+(define-data-var holders (list 10 principal) (list))
+(define-constant err-unauthorized (err u401))
+(define-map balances principal uint)
+
+(define-read-only (get-owner)
+  (var-get owner))
+
+(define-public (transfer (amount uint) (sender principal) (recipient principal)
+                         (memo (optional (buff 34))))
+  (begin
+    (print u"transfer \\u{1f33e} )")
+    (ft-transfer? coin amount sender recipient)))
+
+(define-private (check-seat (ticket-id (tuple (event (string-ascii 16)) (seat uint))))
+  (is-some (nft-get-owner? ticket ticket-id)))
+
+(begin (ft-mint? coin u100 tx-sender))
+`;
+
+test('Analyze kv-store contract', () => {
+  const code = fs.readFileSync('./tests/src/contracts/kv-store.clar').toString();
+  const expected = abiFromJSON(
+    fs.readFileSync('./tests/src/contracts/kv-store-abi.json').toString()
+  );
+  expected.functions.forEach(fn => {
+    delete fn.output;
+  });
+  const abi = analyzeContract(code);
+  expect(abi).toEqual(expected);
+  // the unknown output types are left out rather than written as "none"
+  expect(abiToJSON(abi).functions.map(fn => fn.outputs)).toEqual([undefined, undefined]);
+});
+
+test('Analyze contract with assets', () => {
+  const abi = analyzeContract(tokenContract);
+  expect(abi.fungibleTokens).toEqual(['coin']);
+  expect(abi.nonFungibleTokens).toEqual([
+    {
+      name: 'ticket',
+      type: {
+        type: 'tuple',
+        fields: { event: { type: 'string-ascii', length: 16 }, seat: { type: 'uint' } },
+      },
+    },
+  ]);
+  expect(
+    abi.variables.map(variable => `${variable.name} ${signatureToString(variable.type)}`)
+  ).toEqual(['owner principal', 'holders (list 10 principal)']);
+  expect(abi.maps).toEqual([
+    { name: 'balances', key: { type: 'principal' }, value: { type: 'uint' } },
+  ]);
+  expect(
+    abi.functions.map(
+      fn =>
+        `${fn.access} ${fn.name} ${fn.args
+          .map(arg => `${arg.name}: ${signatureToString(arg.type)}`)
+          .join(', ')}`
+    )
+  ).toEqual([
+    'read_only get-owner ',
+    'public transfer amount: uint, sender: principal, recipient: principal, memo: (optional (buff 34))',
+    'private check-seat ticket-id: (tuple (event (string-ascii 16)) (seat uint))',
+  ]);
+});
+
+test('Parse type signatures', () => {
+  [
+    'int',
+    '(buff 32)',
+    '(string-utf8 10)',
+    '(response (optional uint) int)',
+    '(list 5 (tuple (id uint) (owner principal)))',
+  ].forEach(source => {
+    expect(signatureToString(parseTypeSignature(source))).toBe(source);
+  });
+  expect(parseTypeSignature('((key (buff 32)))')).toEqual(parseTypeSignature('{ key: (buff 32) }'));
+  expect(parseTypeSignature('{ a: int, b: bool }')).toEqual({
+    type: 'tuple',
+    fields: { a: { type: 'int' }, b: { type: 'bool' } },
+  });
+});
+
+test('Invalid contracts and types', () => {
+  const expectError = (source: string, message: string) => {
+    let error: unknown;
+    try {
+      analyzeContract(source);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ClarityParseError);
+    expect((error as Error).message).toBe(message);
+  };
+  expectError(
+    '(define-public (get-value (key (buff 32)))\n  (ok key)',
+    'Expected ")" at line 2, column 11'
+  );
+  expectError('(define-data-var count int 0))', 'Unexpected ")" at line 1, column 30');
+  expectError(
+    '(define-public (foo (bar bytes)) (ok bar))',
+    'Unknown type "bytes" at line 1, column 26'
+  );
+  expectError('(define-public foo (ok 1))', 'Invalid function definition at line 1, column 1');
+  expectError('(define-public (foo bar) (ok 1))', 'Invalid function argument at line 1, column 21');
+  expectError('(define-map m ((key (buff 32))))', 'Invalid define-map at line 1, column 1');
+  expectError('(define-data-var v (buff -1) 0x)', 'Expected a length at line 1, column 26');
+  expectError('(define-data-var v (list 10) (list))', 'Invalid list type at line 1, column 20');
+  expectError(
+    '(define-data-var v { a: int, a: int } (tuple))',
+    'Duplicate tuple key "a" at line 1, column 30'
+  );
+  expectError('(print "unterminated)', 'Unterminated string at line 1, column 8');
+
+  expect(() => parseTypeSignature('int uint')).toThrow(
+    'Expected a single type at line 1, column 5'
+  );
+  expect(() => parseTypeSignature('{ a int }')).toThrow('Expected ":" at line 1, column 5');
+  expect(() => parseTypeSignature('(tuple)')).toThrow('Invalid tuple type at line 1, column 1');
+});
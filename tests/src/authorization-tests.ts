@@ -1,16 +1,24 @@
 import {
   SpendingCondition,
   SingleSigSpendingCondition,
+  MultiSigSpendingCondition,
+  SpendingAuthorizationField,
   MessageSignature,
 } from '../../src/authorization';
 
 import { Address } from '../../src/types';
 
-import { AddressHashMode, AddressVersion, PubKeyEncoding } from '../../src/constants';
+import {
+  AddressHashMode,
+  AddressVersion,
+  AuthFieldType,
+  AuthType,
+  PubKeyEncoding,
+} from '../../src/constants';
 
-import { StacksPrivateKey } from '../../src/keys';
+import { StacksPrivateKey, StacksPublicKey } from '../../src/keys';
 
-import { serializeDeserialize } from './macros';
+import { serializeDeserialize, expectDeserializationError, replaceByte } from './macros';
 
 import * as BigNum from 'bn.js';
 
@@ -25,6 +33,107 @@ test('ECDSA recoverable signature', () => {
   expect(signature).toBe(correctSignature);
 });
 
+test('Message signature public key recovery and verification', () => {
+  const privKey = new StacksPrivateKey(
+    'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01'
+  );
+  const messageHash = 'eec72e6cd1ce0ac1dd1a0c260f099a8fc72498c80b3447f962fd5d39a3d70921';
+  const signature = privKey.sign(messageHash);
+
+  const { recoveryParam, r, s } = signature.components();
+  expect(recoveryParam).toBe(1);
+  expect(r).toBe('9901d8b1d67a7b853dc473d0609508ab2519ec370eabfef460aa0fd923466078');
+  expect(s).toBe('7970968562da9de8b024a7f36f946b2fdcbf39b2f59247267a9d72730f19276b');
+
+  const publicKey = privKey.getPublicKey();
+  expect(signature.recoverPublicKey(messageHash).toString()).toBe(publicKey.toString());
+  expect(signature.recoverPublicKey(messageHash, PubKeyEncoding.Uncompressed).toString()).toBe(
+    publicKey.toUncompressed().toString()
+  );
+
+  expect(signature.verify(messageHash, publicKey)).toBe(true);
+  expect(signature.verify(messageHash, publicKey.toUncompressed())).toBe(true);
+  expect(signature.verify('00'.repeat(32), publicKey)).toBe(false);
+  expect(signature.verify(messageHash, StacksPrivateKey.makeRandom().getPublicKey())).toBe(false);
+  const wrongRecoveryParam = new MessageSignature('00' + r + s);
+  expect(wrongRecoveryParam.verify(messageHash, publicKey)).toBe(false);
+});
+
+test('Message signature DER conversion', () => {
+  const privKey = new StacksPrivateKey(
+    'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01'
+  );
+  const publicKey = privKey.getPublicKey();
+  const messageHash = 'eec72e6cd1ce0ac1dd1a0c260f099a8fc72498c80b3447f962fd5d39a3d70921';
+  const signature = privKey.sign(messageHash);
+
+  const der =
+    '3045022100' +
+    '9901d8b1d67a7b853dc473d0609508ab2519ec370eabfef460aa0fd923466078' +
+    '0220' +
+    '7970968562da9de8b024a7f36f946b2fdcbf39b2f59247267a9d72730f19276b';
+  expect(signature.toDER()).toBe(der);
+  expect(MessageSignature.fromDER(der, messageHash, publicKey).toString()).toBe(
+    signature.toString()
+  );
+
+  // a high s value is normalized to the low form
+  const highS = new BigNum(
+    'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+    16
+  ).sub(new BigNum(signature.components().s, 16));
+  const highSDER =
+    '3046022100' +
+    '9901d8b1d67a7b853dc473d0609508ab2519ec370eabfef460aa0fd923466078' +
+    '022100' +
+    highS.toString(16);
+  expect(MessageSignature.fromDER(highSDER, messageHash, publicKey).toString()).toBe(
+    signature.toString()
+  );
+
+  expect(() =>
+    MessageSignature.fromDER(der, messageHash, StacksPrivateKey.makeRandom().getPublicKey())
+  ).toThrow('Signature does not match the public key');
+  expect(() => MessageSignature.fromDER(der + '00', messageHash, publicKey)).toThrow(
+    'Invalid DER signature: bad sequence length'
+  );
+});
+
+test('Signature hash after signing', () => {
+  const sigHash = SpendingCondition.makeSigHashPostSign(
+    '00'.repeat(32),
+    PubKeyEncoding.Compressed,
+    new MessageSignature('ff'.repeat(65))
+  );
+  expect(sigHash).toBe('3280c0dab025e2921975e215e63eb9574694ae03af256d8acae21190f993a715');
+});
+
+test('Replaying the signature hash of a signed spending condition', () => {
+  const privKey = new StacksPrivateKey(
+    'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01'
+  );
+  const nonce = new BigNum(3);
+  const feeRate = new BigNum(10);
+  const spendingCondition = new SingleSigSpendingCondition(
+    AddressHashMode.SerializeP2PKH,
+    privKey.getPublicKey().toString(),
+    nonce,
+    feeRate
+  );
+  const initialSigHash = '11'.repeat(32);
+  expect(spendingCondition.replaySigHash(initialSigHash, AuthType.Standard)).toBe(initialSigHash);
+
+  const { nextSig, nextSigHash } = SpendingCondition.nextSignature(
+    initialSigHash,
+    AuthType.Standard,
+    feeRate,
+    nonce,
+    privKey
+  );
+  spendingCondition.signature = nextSig;
+  expect(spendingCondition.replaySigHash(initialSigHash, AuthType.Standard)).toBe(nextSigHash);
+});
+
 test('Single spending condition serialization and deserialization', () => {
   const addressHashMode = AddressHashMode.SerializeP2PKH;
   const nonce = new BigNum(0);
@@ -40,6 +149,43 @@ test('Single spending condition serialization and deserialization', () => {
   expect(deserialized.signature.toString()).toBe(emptySignature.toString());
 });
 
+test('Spending condition deserialization with invalid enum bytes', () => {
+  const singleSig = new SingleSigSpendingCondition(
+    AddressHashMode.SerializeP2PKH,
+    '03ef788b3830c00abe8f64f62dc32fc863bc0b2cafeb073b6c8e1c7657d9c2c3ab',
+    new BigNum(0),
+    new BigNum(0)
+  ).serialize();
+  // hash mode, signer, nonce and fee rate come before the key encoding
+  expectDeserializationError(
+    SpendingCondition,
+    replaceByte(singleSig, 0, 0x04),
+    'Invalid AddressHashMode 0x04',
+    0
+  );
+  expectDeserializationError(
+    SpendingCondition,
+    replaceByte(singleSig, 37, 0x02),
+    'Invalid PubKeyEncoding 0x02',
+    37
+  );
+
+  const multiSig = new MultiSigSpendingCondition(
+    AddressHashMode.SerializeP2SH,
+    ['02db3ee269c096bb07fad458f7b1cfada089a72dba6404c2d1a516efd59f2699e5'],
+    1,
+    new BigNum(0),
+    new BigNum(0)
+  ).serialize();
+  // the first auth field follows the 4 byte length of the field list
+  expectDeserializationError(
+    SpendingCondition,
+    replaceByte(multiSig, 41, 0x04),
+    'Invalid AuthFieldType 0x04',
+    41
+  );
+});
+
 test('Single sig spending condition uncompressed', () => {
   const addressHashMode = AddressHashMode.SerializeP2PKH;
   const nonce = new BigNum(123);
@@ -123,3 +269,141 @@ test('Single sig wpkh spending condition compressed', () => {
 
   expect(serializedSpendingCondition).toEqual(spendingConditionBytes);
 });
+
+test('Multi sig spending condition serialization and deserialization', () => {
+  const addressHashMode = AddressHashMode.SerializeP2SH;
+  const nonce = new BigNum(123);
+  const feeRate = new BigNum(456);
+  const pubKeys = [
+    '02db3ee269c096bb07fad458f7b1cfada089a72dba6404c2d1a516efd59f2699e5',
+    '02fcd53041c79bc2756e3aadc510a9b3c1f098b9465fc841d10aad4f75badb638b',
+    '03661ec7479330bf1ef7a4c9d1816f089666a112e72d671048e5424fc528ca5153',
+  ];
+  const spendingCondition = new MultiSigSpendingCondition(
+    addressHashMode,
+    pubKeys,
+    2,
+    nonce,
+    feeRate
+  );
+  expect(spendingCondition.signerAddress!.data).toBe('a23ea89d6529ac48ac766f720e480beec7f19273');
+  expect(spendingCondition.numSignatures()).toBe(0);
+
+  spendingCondition.authFields[0] = SpendingAuthorizationField.fromSignature(
+    new MessageSignature('ff'.repeat(65)),
+    PubKeyEncoding.Compressed
+  );
+  expect(spendingCondition.numSignatures()).toBe(1);
+
+  const deserialized = serializeDeserialize(spendingCondition, SpendingCondition);
+  expect(deserialized.addressHashMode).toBe(addressHashMode);
+  expect(deserialized.signerAddress!.data).toBe(spendingCondition.signerAddress!.data);
+  expect(deserialized.nonce!.toNumber()).toBe(nonce.toNumber());
+  expect(deserialized.feeRate!.toNumber()).toBe(feeRate.toNumber());
+  expect(deserialized.signaturesRequired).toBe(2);
+  expect(deserialized.numSignatures()).toBe(1);
+  expect(deserialized.authFields.length).toBe(3);
+  expect(deserialized.authFields[0].fieldType).toBe(AuthFieldType.SignatureCompressed);
+  expect(deserialized.authFields[0].signature!.toString()).toBe('ff'.repeat(65));
+  expect(deserialized.authFields[1].fieldType).toBe(AuthFieldType.PublicKeyCompressed);
+  expect(deserialized.authFields[1].publicKey!.toString()).toBe(pubKeys[1]);
+  expect(deserialized.authFields[2].publicKey!.toString()).toBe(pubKeys[2]);
+});
+
+test('Multi sig wsh spending condition with uncompressed key field', () => {
+  const addressHashMode = AddressHashMode.SerializeP2WSH;
+  const nonce = new BigNum(345);
+  const feeRate = new BigNum(456);
+  const spendingCondition = new MultiSigSpendingCondition();
+  spendingCondition.addressHashMode = addressHashMode;
+  spendingCondition.nonce = nonce;
+  spendingCondition.feeRate = feeRate;
+  spendingCondition.signaturesRequired = 2;
+  spendingCondition.signerAddress = Address.fromData(
+    AddressVersion.MainnetMultiSig,
+    '11'.repeat(20)
+  );
+
+  const privKey = new StacksPrivateKey(
+    'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc'
+  );
+  const uncompressedPubKey = privKey.getPublicKey();
+  spendingCondition.authFields.push(
+    SpendingAuthorizationField.fromSignature(
+      new MessageSignature('fe'.repeat(65)),
+      PubKeyEncoding.Compressed
+    ),
+    SpendingAuthorizationField.fromPublicKey(uncompressedPubKey)
+  );
+
+  const serialized = spendingCondition.serialize();
+
+  // prettier-ignore
+  const spendingConditionBytesHex = [
+    // address hash mode
+    AddressHashMode.SerializeP2WSH,
+    // signer
+    0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x11,
+    0x11, 0x11, 0x11, 0x11, 0x11,
+    // nonce
+    0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01, 0x59,
+    // fee rate
+    0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01, 0xc8,
+    // number of fields
+    0x00, 0x00, 0x00, 0x02,
+    // signature field
+    AuthFieldType.SignatureCompressed,
+    0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe,
+    0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe,
+    0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe,
+    0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe, 0xfe,
+    0xfe, 0xfe, 0xfe, 0xfe, 0xfe,
+    // public key field, written in compressed form
+    AuthFieldType.PublicKeyUncompressed,
+    0x03, 0xef, 0x78, 0x8b, 0x38, 0x30, 0xc0, 0x0a, 0xbe, 0x8f, 0x64, 0xf6, 0x2d, 0xc3, 0x2f,
+    0xc8, 0x63, 0xbc, 0x0b, 0x2c, 0xaf, 0xeb, 0x07, 0x3b, 0x6c, 0x8e, 0x1c, 0x76, 0x57, 0xd9,
+    0xc2, 0xc3, 0xab,
+    // signatures required
+    0x00, 0x02
+  ];
+  expect(serialized).toEqual(Buffer.from(spendingConditionBytesHex));
+
+  const deserialized = serializeDeserialize(spendingCondition, SpendingCondition);
+  expect(deserialized.numSignatures()).toBe(1);
+  expect(deserialized.authFields[1].publicKey!.toString()).toBe(uncompressedPubKey.toString());
+});
+
+test('Multi sig spending condition address hash modes', () => {
+  const pubKeys = [
+    '02db3ee269c096bb07fad458f7b1cfada089a72dba6404c2d1a516efd59f2699e5',
+    '02fcd53041c79bc2756e3aadc510a9b3c1f098b9465fc841d10aad4f75badb638b',
+    '03661ec7479330bf1ef7a4c9d1816f089666a112e72d671048e5424fc528ca5153',
+  ];
+  const nonce = new BigNum(0);
+  const feeRate = new BigNum(0);
+
+  const p2wsh = new MultiSigSpendingCondition(
+    AddressHashMode.SerializeP2WSH,
+    pubKeys,
+    2,
+    nonce,
+    feeRate
+  );
+  expect(p2wsh.signerAddress!.data).toBe('f5cfb61a07fb41a32197da01ce033888f0fe94a7');
+
+  expect(
+    () => new MultiSigSpendingCondition(AddressHashMode.SerializeP2SH, pubKeys, 4, nonce, feeRate)
+  ).toThrow('Invalid number of signatures');
+
+  const uncompressed = new StacksPublicKey(pubKeys[0]).toUncompressed().toString();
+  expect(
+    () =>
+      new MultiSigSpendingCondition(
+        AddressHashMode.SerializeP2WSH,
+        [uncompressed, pubKeys[1]],
+        1,
+        nonce,
+        feeRate
+      )
+  ).toThrow('Public keys must be compressed for segwit');
+});
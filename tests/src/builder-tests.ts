@@ -10,17 +10,54 @@ import {
   makeContractFungiblePostCondition,
   makeStandardNonFungiblePostCondition,
   makeContractNonFungiblePostCondition,
+  makeUnsignedSTXTokenTransfer,
+  makeUnsignedContractCall,
+  makeSTXTokenTransferWithSigner,
+  sponsorTransactionWithSigner,
+  sponsorTransaction,
+  makeOriginSTXPostCondition,
+  makeStrictSTXTokenTransfer,
+  makeStrictTransferContractCall,
+  makeUnsignedStrictSTXTokenTransfer,
+  makeUnsignedStrictTransferContractCall,
+  makeStrictSTXTokenTransferWithSigner,
+  makeStrictTransferContractCallWithSigner,
+  deriveFungibleTransferPostConditions,
+  deriveNonFungibleTransferPostConditions,
 } from '../../src/builders';
 
+import { TransactionSigner } from '../../src/signer';
+
+import { StacksTransaction } from '../../src/transaction';
+
+import { SpendingCondition } from '../../src/authorization';
+
+import { StacksPrivateKey, MockSigner, MessageSigner, PrivateKeySigner } from '../../src/keys';
+
+import { BufferReader, hash_p2pkh } from '../../src/utils';
+
 import { AssetInfo } from '../../src/types';
 
 import {
   TransactionVersion,
   FungibleConditionCode,
   NonFungibleConditionCode,
+  AuthType,
+  AddressHashMode,
+  PubKeyEncoding,
+  PostConditionMode,
+  AssetType,
 } from '../../src/constants';
 
-import { bufferCV } from '../../src/clarity';
+import { ContractCallPayload } from '../../src/payload';
+
+import {
+  bufferCV,
+  uintCV,
+  noneCV,
+  standardPrincipalCV,
+  contractPrincipalCV,
+} from '../../src/clarity';
 
 import * as BigNum from 'bn.js';
 
@@ -159,7 +196,7 @@ test('Make contract-call with post conditions', () => {
   const assetContractName = 'test-asset-contract';
   const assetName = 'test-asset-name';
   const assetInfo = new AssetInfo(assetAddress, assetContractName, assetName);
-  const tokenAssetName = 'token-asset-name';
+  const tokenAssetName = bufferCV(Buffer.from('token-asset-name'));
 
   const feeRate = new BigNum(0);
 
@@ -222,21 +259,400 @@ test('Make contract-call with post conditions', () => {
   const serialized = transaction.serialize().toString('hex');
 
   const tx =
-    '80000000000400e6c05355e0c990ffad19a5e9bda394a9c500342900000000000000010000000000000000' +
-    '00000861bcaec8651116ee64b3d228db5c91ad0438659176cc5b719b3aef4fe271ab5ccb437070c3a407a0' +
-    '57a91757f0335a70aee7932219934daceba022ac5983ab03020000000600021a5dd8ff3545259925b98252' +
-    '4807686567eec2933f03000000000000000a00031ae6c05355e0c990ffad19a5e9bda394a9c5003429086b' +
-    '762d73746f726503000000000000303901021a5dd8ff3545259925b982524807686567eec2933f1ac989ba' +
-    '53bbb27a76ef5e8499e65f69c7798fd5d113746573742d61737365742d636f6e74726163740f746573742d' +
-    '61737365742d6e616d650400000000000003e801031a5dd8ff3545259925b982524807686567eec2933f08' +
-    '6b762d73746f72651ac989ba53bbb27a76ef5e8499e65f69c7798fd5d113746573742d61737365742d636f' +
-    '6e74726163740f746573742d61737365742d6e616d6501000000000000000102021a5dd8ff3545259925b9' +
-    '82524807686567eec2933f1ac989ba53bbb27a76ef5e8499e65f69c7798fd5d113746573742d6173736574' +
-    '2d636f6e74726163740f746573742d61737365742d6e616d6510746f6b656e2d61737365742d6e616d6511' +
-    '02031a5dd8ff3545259925b982524807686567eec2933f086b762d73746f72651ac989ba53bbb27a76ef5e' +
-    '8499e65f69c7798fd5d113746573742d61737365742d636f6e74726163740f746573742d61737365742d6e' +
-    '616d6510746f6b656e2d61737365742d6e616d6510021ae6c05355e0c990ffad19a5e9bda394a9c5003429' +
-    '086b762d73746f7265096765742d76616c7565000000010200000003666f6f';
+    '80000000000400e6c05355e0c990ffad19a5e9bda394a9c50034290000000000000001000000000000000000' +
+    '0095ad9329c0565faa3dda0ef9cdfbe4c4abca1ad817550678c4da869da0ea9a2a15bca8b7ad494129c779ae' +
+    '36bf8da3661550118188dec2b42ed22d340f9c5cc503020000000600021a5dd8ff3545259925b98252480768' +
+    '6567eec2933f03000000000000000a00031ae6c05355e0c990ffad19a5e9bda394a9c5003429086b762d7374' +
+    '6f726503000000000000303901021a5dd8ff3545259925b982524807686567eec2933f1ac989ba53bbb27a76' +
+    'ef5e8499e65f69c7798fd5d113746573742d61737365742d636f6e74726163740f746573742d61737365742d' +
+    '6e616d650400000000000003e801031a5dd8ff3545259925b982524807686567eec2933f086b762d73746f72' +
+    '651ac989ba53bbb27a76ef5e8499e65f69c7798fd5d113746573742d61737365742d636f6e74726163740f74' +
+    '6573742d61737365742d6e616d6501000000000000000102021a5dd8ff3545259925b982524807686567eec2' +
+    '933f1ac989ba53bbb27a76ef5e8499e65f69c7798fd5d113746573742d61737365742d636f6e74726163740f' +
+    '746573742d61737365742d6e616d650200000010746f6b656e2d61737365742d6e616d651102031a5dd8ff35' +
+    '45259925b982524807686567eec2933f086b762d73746f72651ac989ba53bbb27a76ef5e8499e65f69c7798f' +
+    'd5d113746573742d61737365742d636f6e74726163740f746573742d61737365742d6e616d65020000001074' +
+    '6f6b656e2d61737365742d6e616d6510021ae6c05355e0c990ffad19a5e9bda394a9c5003429086b762d7374' +
+    '6f7265096765742d76616c7565000000010200000003666f6f';
 
   expect(serialized).toBe(tx);
 });
+
+test('Make sponsored STX token transfer and sponsor it', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const amount = new BigNum(12345);
+  const feeRate = new BigNum(0);
+  const senderKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const sponsorKey = '9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401';
+  const sponsorFeeRate = new BigNum(1000);
+  const sponsorNonce = new BigNum(2);
+
+  const transaction = makeSTXTokenTransfer(recipientAddress, amount, feeRate, senderKey, {
+    sponsored: true,
+  });
+  expect(transaction.auth!.authType).toBe(AuthType.Sponsored);
+  expect(transaction.auth!.sponsorSpendingCondition!.signerAddress!.data).toBe('00'.repeat(20));
+
+  // the origin hands the serialized transaction to the sponsor
+  const serialized = transaction.serialize();
+  const received = StacksTransaction.deserialize(new BufferReader(serialized));
+
+  const sponsored = sponsorTransaction(received, sponsorKey, sponsorFeeRate, {
+    nonce: sponsorNonce,
+  });
+
+  const sponsorPrivKey = new StacksPrivateKey(sponsorKey);
+  const sponsorCondition = sponsored.auth!.sponsorSpendingCondition!;
+  expect(sponsorCondition.signerAddress!.data).toBe(
+    hash_p2pkh(sponsorPrivKey.getPublicKey().toString())
+  );
+  expect(sponsorCondition.feeRate!.toNumber()).toBe(sponsorFeeRate.toNumber());
+  expect(sponsorCondition.nonce!.toNumber()).toBe(sponsorNonce.toNumber());
+  expect(sponsorCondition.numSignatures()).toBe(1);
+
+  const originCondition = sponsored.auth!.spendingCondition!;
+  expect(originCondition.signature.toString()).toBe(
+    transaction.auth!.spendingCondition!.signature.toString()
+  );
+
+  // the sponsor signs over the sighash that follows the origin signature
+  const originSigHash = SpendingCondition.makeSigHashPostSign(
+    SpendingCondition.makeSigHashPreSign(
+      sponsored.signBegin(),
+      AuthType.Standard,
+      originCondition.feeRate!,
+      originCondition.nonce!
+    ),
+    PubKeyEncoding.Compressed,
+    originCondition.signature
+  );
+  const sponsorPreSign = SpendingCondition.makeSigHashPreSign(
+    originSigHash,
+    AuthType.Sponsored,
+    sponsorFeeRate,
+    sponsorNonce
+  );
+  expect(sponsorCondition.signature.toString()).toBe(
+    sponsorPrivKey.sign(sponsorPreSign).toString()
+  );
+
+  const verification = sponsored.verify();
+  expect(verification.valid).toBe(true);
+  expect(verification.sponsor!.publicKeys[0].toString()).toBe(
+    sponsorPrivKey.getPublicKey().toString()
+  );
+
+  sponsorCondition.feeRate = new BigNum(1);
+  expect(sponsored.verify().origin.valid).toBe(true);
+  expect(sponsored.verify().sponsor!.valid).toBe(false);
+});
+
+test('Sponsoring a standard transaction fails', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const senderKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const sponsorKey = '9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401';
+
+  const transaction = makeSTXTokenTransfer(
+    recipientAddress,
+    new BigNum(12345),
+    new BigNum(0),
+    senderKey
+  );
+
+  expect(() => sponsorTransaction(transaction, sponsorKey, new BigNum(1000))).toThrow(
+    'Cannot add sponsor to a non-sponsored transaction'
+  );
+});
+
+test('Make and sponsor STX token transfer with external signers', async () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const amount = new BigNum(12345);
+  const feeRate = new BigNum(0);
+  const senderKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const sponsorKey = '9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401';
+  const sponsorFeeRate = new BigNum(1000);
+  const options = { memo: 'test memo', sponsored: true };
+
+  const senderSigner = new MockSigner(new StacksPrivateKey(senderKey));
+  const transaction = await makeSTXTokenTransferWithSigner(
+    recipientAddress,
+    amount,
+    feeRate,
+    senderSigner,
+    options
+  );
+  expect(senderSigner.signedHashes).toHaveLength(1);
+
+  const sponsorSigner = new MockSigner(new StacksPrivateKey(sponsorKey));
+  const sponsored = await sponsorTransactionWithSigner(transaction, sponsorSigner, sponsorFeeRate);
+  expect(sponsorSigner.signedHashes).toHaveLength(1);
+  expect(sponsored.verify().valid).toBe(true);
+
+  // signing with the key in memory yields the same transaction
+  const expected = sponsorTransaction(
+    makeSTXTokenTransfer(recipientAddress, amount, feeRate, senderKey, options),
+    sponsorKey,
+    sponsorFeeRate
+  );
+  expect(sponsored.serialize().toString('hex')).toBe(expected.serialize().toString('hex'));
+});
+
+test('Signature not made by the key of an external signer is rejected', async () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const claimedKey = new StacksPrivateKey(
+    'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01'
+  );
+  const signingKey = StacksPrivateKey.makeRandom();
+
+  const signer: MessageSigner = {
+    getPublicKey: () => Promise.resolve(claimedKey.getPublicKey()),
+    signMessageHash: (messageHash: string) => Promise.resolve(signingKey.sign(messageHash)),
+  };
+
+  await expect(
+    makeSTXTokenTransferWithSigner(recipientAddress, new BigNum(12345), new BigNum(0), signer)
+  ).rejects.toThrow('Signature does not match the public key of the signer');
+});
+
+test('Make unsigned STX token transfer and sign it separately', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const amount = new BigNum(12345);
+  const feeRate = new BigNum(0);
+  const secretKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const options = { memo: 'test memo' };
+
+  const privKey = new StacksPrivateKey(secretKey);
+  const transaction = makeUnsignedSTXTokenTransfer(
+    recipientAddress,
+    amount,
+    feeRate,
+    privKey.getPublicKey().toString(),
+    options
+  );
+  expect(transaction.auth!.spendingCondition!.numSignatures()).toBe(0);
+
+  const signer = new TransactionSigner(transaction);
+  signer.signOrigin(privKey);
+
+  const signed = makeSTXTokenTransfer(recipientAddress, amount, feeRate, secretKey, options);
+  expect(transaction.serialize().toString('hex')).toBe(signed.serialize().toString('hex'));
+});
+
+test('Make unsigned multi sig contract-call', () => {
+  const contractAddress = 'ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE';
+  const privKeys = [
+    '6d430bb91222408e7706c9001cfaeb91b08c2be6d5ac95779ab52c6b431950e001',
+    '2a584d899fed1d24e26b524f202763c8ab30260167429f157f1c119f550fa6af01',
+    'd5200dee706ee53ae98a03fba6cf4fdcc5084c30cfa9e1b3462dcdeaa3e0f1d201',
+  ].map(key => new StacksPrivateKey(key));
+
+  const transaction = makeUnsignedContractCall(
+    contractAddress,
+    'kv-store',
+    'get-value',
+    [bufferCV(Buffer.from('foo'))],
+    new BigNum(0),
+    {
+      publicKeys: privKeys.map(key => key.getPublicKey().toString()),
+      signaturesRequired: 2,
+      addressHashMode: AddressHashMode.SerializeP2WSH,
+    },
+    { version: TransactionVersion.Testnet }
+  );
+
+  const spendingCondition = transaction.auth!.spendingCondition!;
+  expect(spendingCondition.addressHashMode).toBe(AddressHashMode.SerializeP2WSH);
+  expect(spendingCondition.signerAddress!.data).toBe('f5cfb61a07fb41a32197da01ce033888f0fe94a7');
+
+  const signer = new TransactionSigner(transaction);
+  signer.signOrigin(privKeys[0]);
+  signer.signOrigin(privKeys[1]);
+  expect(transaction.verify().valid).toBe(true);
+});
+
+test('Make STX token transfer with strict post conditions', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const amount = new BigNum(12345);
+  const feeRate = new BigNum(0);
+  const secretKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const extraPostCondition = makeStandardSTXPostCondition(
+    recipientAddress,
+    FungibleConditionCode.Equal,
+    new BigNum(0)
+  );
+
+  const allowed = makeSTXTokenTransfer(recipientAddress, amount, feeRate, secretKey, {
+    postConditionMode: PostConditionMode.Allow,
+  });
+  expect(allowed.postConditionMode).toBe(PostConditionMode.Allow);
+
+  const transaction = makeStrictSTXTokenTransfer(recipientAddress, amount, feeRate, secretKey, {
+    postConditions: [extraPostCondition],
+    postConditionMode: PostConditionMode.Allow,
+  });
+
+  expect(transaction.postConditionMode).toBe(PostConditionMode.Deny);
+  expect(Array.from(transaction.postConditions, pc => pc.serialize().toString('hex'))).toEqual([
+    makeOriginSTXPostCondition(FungibleConditionCode.Equal, amount)
+      .serialize()
+      .toString('hex'),
+    extraPostCondition.serialize().toString('hex'),
+  ]);
+  transaction.verifyOrigin();
+});
+
+test('Make token transfer contract calls with strict post conditions', () => {
+  const secretKey = 'e494f188c2d35887531ba474c433b1e41fadd8eb824aca983447fd4bb8b277a801';
+  const senderAddress = 'ST1EXHZSN8MJSJ9DSG994G1V8CNKYXGMK7Z4SA6DH';
+  const recipientAddress = 'ST34RKEJKQES7MXQFBT29KSJZD73QK3YNT5N56C6X';
+  const assetInfo = new AssetInfo(
+    'ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE',
+    'token-contract',
+    'token'
+  );
+  const feeRate = new BigNum(0);
+  const options = { version: TransactionVersion.Testnet };
+
+  const ftArgs = [
+    uintCV(250),
+    standardPrincipalCV(senderAddress),
+    standardPrincipalCV(recipientAddress),
+    noneCV(),
+  ];
+  const ftTransaction = makeStrictTransferContractCall(
+    AssetType.Fungible,
+    assetInfo,
+    ftArgs,
+    feeRate,
+    secretKey,
+    options
+  );
+  const payload = ftTransaction.payload as ContractCallPayload;
+  expect(payload.contractAddress!.toString()).toBe('ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE');
+  expect(payload.contractName!.toString()).toBe('token-contract');
+  expect(payload.functionName!.toString()).toBe('transfer');
+  expect(ftTransaction.postConditionMode).toBe(PostConditionMode.Deny);
+  expect(ftTransaction.postConditions[0].serialize().toString('hex')).toBe(
+    makeStandardFungiblePostCondition(
+      senderAddress,
+      FungibleConditionCode.Equal,
+      new BigNum(250),
+      assetInfo
+    )
+      .serialize()
+      .toString('hex')
+  );
+
+  const nftArgs = [
+    uintCV(7),
+    contractPrincipalCV(senderAddress, 'vault'),
+    standardPrincipalCV(recipientAddress),
+  ];
+  const nftTransaction = makeStrictTransferContractCall(
+    AssetType.NonFungible,
+    assetInfo,
+    nftArgs,
+    feeRate,
+    secretKey,
+    options
+  );
+  expect(nftTransaction.postConditions[0].serialize().toString('hex')).toBe(
+    makeContractNonFungiblePostCondition(
+      senderAddress,
+      'vault',
+      NonFungibleConditionCode.DoesNotOwn,
+      assetInfo,
+      uintCV(7)
+    )
+      .serialize()
+      .toString('hex')
+  );
+
+  expect(() =>
+    deriveFungibleTransferPostConditions(assetInfo, [bufferCV(Buffer.from('a'))])
+  ).toThrow('Expected a uint amount as the first transfer argument');
+  expect(() => deriveNonFungibleTransferPostConditions(assetInfo, [uintCV(7)])).toThrow(
+    'Expected a principal sender as the second transfer argument'
+  );
+});
+
+test('Make strict transfers for multisig senders and external signers', async () => {
+  const secretKey = 'e494f188c2d35887531ba474c433b1e41fadd8eb824aca983447fd4bb8b277a801';
+  const signer = new PrivateKeySigner(new StacksPrivateKey(secretKey));
+  const recipientAddress = 'ST34RKEJKQES7MXQFBT29KSJZD73QK3YNT5N56C6X';
+  const assetInfo = new AssetInfo(
+    'ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE',
+    'token-contract',
+    'token'
+  );
+  const amount = new BigNum(12345);
+  const feeRate = new BigNum(0);
+  const options = { version: TransactionVersion.Testnet, nonce: new BigNum(1) };
+  const multiSigSender = {
+    publicKeys: [signer.privateKey.getPublicKey().toString()],
+    signaturesRequired: 1,
+  };
+
+  const postConditionsOf = (transaction: StacksTransaction) =>
+    Array.from(transaction.postConditions, pc => pc.serialize().toString('hex'));
+
+  const strictTransfer = makeStrictSTXTokenTransfer(
+    recipientAddress,
+    amount,
+    feeRate,
+    secretKey,
+    options
+  );
+  const unsignedTransfer = makeUnsignedStrictSTXTokenTransfer(
+    recipientAddress,
+    amount,
+    feeRate,
+    multiSigSender,
+    options
+  );
+  expect(unsignedTransfer.postConditionMode).toBe(PostConditionMode.Deny);
+  expect(postConditionsOf(unsignedTransfer)).toEqual(postConditionsOf(strictTransfer));
+  const signedTransfer = await makeStrictSTXTokenTransferWithSigner(
+    recipientAddress,
+    amount,
+    feeRate,
+    signer,
+    options
+  );
+  expect(signedTransfer.serialize().toString('hex')).toBe(
+    strictTransfer.serialize().toString('hex')
+  );
+
+  const transferArgs = [
+    uintCV(250),
+    standardPrincipalCV('ST1EXHZSN8MJSJ9DSG994G1V8CNKYXGMK7Z4SA6DH'),
+    standardPrincipalCV(recipientAddress),
+  ];
+  const strictCall = makeStrictTransferContractCall(
+    AssetType.Fungible,
+    assetInfo,
+    transferArgs,
+    feeRate,
+    secretKey,
+    options
+  );
+  const unsignedCall = makeUnsignedStrictTransferContractCall(
+    AssetType.Fungible,
+    assetInfo,
+    transferArgs,
+    feeRate,
+    multiSigSender,
+    options
+  );
+  expect(unsignedCall.postConditionMode).toBe(PostConditionMode.Deny);
+  expect(postConditionsOf(unsignedCall)).toEqual(postConditionsOf(strictCall));
+  const signedCall = await makeStrictTransferContractCallWithSigner(
+    AssetType.Fungible,
+    assetInfo,
+    transferArgs,
+    feeRate,
+    signer,
+    options
+  );
+  expect(signedCall.serialize().toString('hex')).toBe(strictCall.serialize().toString('hex'));
+});
@@ -1,4 +1,5 @@
 import { BufferReader } from '../../src/utils';
+import { BufferOutOfBoundsError, ClarityParseError } from '../../src/errors';
 import { Address } from '../../src/types';
 import {
   ClarityValue,
@@ -21,6 +22,17 @@ import {
   tupleCV,
   TupleCV,
   standardPrincipalCVFromAddress,
+  cvToJSON,
+  cvFromJSON,
+  ClarityValueJSON,
+  parseCV,
+  cvToString,
+  stringAsciiCV,
+  stringUtf8CV,
+  inferSignature,
+  checkCV,
+  signatureToString,
+  ClarityTypeSignature,
 } from '../../src/clarity';
 import { contractPrincipalCVFromStandard } from '../../src/clarity/types/principalCV';
 
@@ -124,9 +136,33 @@ describe('Clarity Types', () => {
       });
       expect(Object.keys(serializedDeserialized.data)).toEqual(lexicographic);
     });
+
+    test('StringAsciiCV', () => {
+      const str = stringAsciiCV('hello world\n');
+      const serializedDeserialized = serializeDeserialize(str);
+      expect(serializedDeserialized).toEqual(str);
+    });
+
+    test('StringUtf8CV', () => {
+      const str = stringUtf8CV('hello 🌾 café');
+      const serializedDeserialized = serializeDeserialize(str);
+      expect(serializedDeserialized).toEqual(str);
+    });
   });
 
   describe('Serialization Test Vectors', () => {
+    test('String ASCII Vector', () => {
+      const str = stringAsciiCV('hello');
+      const serialized = serializeCV(str).toString('hex');
+      expect(serialized).toEqual('0d0000000568656c6c6f');
+    });
+
+    test('String UTF8 Vector', () => {
+      const str = stringUtf8CV('hello 🌾');
+      const serialized = serializeCV(str).toString('hex');
+      expect(serialized).toEqual('0e0000000a68656c6c6f20f09f8cbe');
+    });
+
     test('Int 1 Vector', () => {
       const int = intCV(1);
       const serialized = serializeCV(int).toString('hex');
@@ -264,4 +300,349 @@ describe('Clarity Types', () => {
       expect(serialized).toEqual('0c000000020362617a0906666f6f62617203');
     });
   });
+
+  describe('JSON', () => {
+    test('Round trip', () => {
+      const cv = listCV([
+        intCV('-170141183460469231731687303715884105728'),
+        uintCV('340282366920938463463374607431768211455'),
+        responseOkCV(bufferCV(Buffer.from('foo'))),
+        responseErrorCV(noneCV()),
+        tupleCV({ flag: falseCV(), owner: contractPrincipalCV(ADDRESS, 'kv-store') }),
+        stringAsciiCV('hello'),
+        stringUtf8CV('hello 🌾'),
+      ]);
+
+      const json = cvToJSON(cv);
+      expect(json).toEqual({
+        type: 'List',
+        value: [
+          { type: 'Int', value: '-170141183460469231731687303715884105728' },
+          { type: 'UInt', value: '340282366920938463463374607431768211455' },
+          { type: 'ResponseOk', value: { type: 'Buffer', value: '666f6f' } },
+          { type: 'ResponseErr', value: { type: 'OptionalNone' } },
+          {
+            type: 'Tuple',
+            value: {
+              flag: { type: 'BoolFalse' },
+              owner: { type: 'PrincipalContract', address: ADDRESS, contractName: 'kv-store' },
+            },
+          },
+          { type: 'StringASCII', value: 'hello' },
+          { type: 'StringUTF8', value: 'hello 🌾' },
+        ],
+      });
+
+      const restored = cvFromJSON(JSON.parse(JSON.stringify(json)));
+      expect(serializeCV(restored).toString('hex')).toBe(serializeCV(cv).toString('hex'));
+      expect(() => cvFromJSON({ type: 'Float', value: '1.5' })).toThrow(
+        'Invalid ClarityType "Float"'
+      );
+    });
+
+    test('Malformed values', () => {
+      const cases: [ClarityValueJSON, string][] = [
+        [{ type: 'UInt' }, '"value" is undefined'],
+        [{ type: 'UInt', value: '1.5' }, 'Invalid UInt "1.5"'],
+        [{ type: 'UInt', value: '-1' }, 'Invalid UInt "-1"'],
+        [
+          { type: 'UInt', value: '340282366920938463463374607431768211456' },
+          'Cannot construct unsigned clarity integer from value greater than 128 bits',
+        ],
+        [{ type: 'Int', value: '0x10' }, 'Invalid Int "0x10"'],
+        [
+          { type: 'Int', value: '170141183460469231731687303715884105728' },
+          'Invalid Int "170141183460469231731687303715884105728"',
+        ],
+        [
+          { type: 'Int', value: '-170141183460469231731687303715884105729' },
+          'Invalid Int "-170141183460469231731687303715884105729"',
+        ],
+        [{ type: 'Buffer', value: 'zz' }, 'Invalid Buffer "zz"'],
+        [{ type: 'Buffer', value: 'abc' }, 'Invalid Buffer "abc"'],
+        [{ type: 'StringASCII', value: [] }, 'Invalid StringASCII value, expected a string'],
+        [{ type: 'PrincipalStandard' }, '"address" is undefined'],
+        [{ type: 'PrincipalContract', address: ADDRESS }, '"contractName" is undefined'],
+        [{ type: 'OptionalSome', value: 'foo' }, 'Invalid OptionalSome value, expected an object'],
+        [{ type: 'ResponseOk' }, '"value" is undefined'],
+        [{ type: 'List' }, '"value" is undefined'],
+        [{ type: 'List', value: { type: 'BoolTrue' } }, 'Invalid List value, expected an array'],
+        [{ type: 'Tuple', value: [] }, 'Invalid Tuple value, expected an object'],
+        [{ type: 'List', value: [{ type: 'Int' }] }, '"value" is undefined'],
+      ];
+      cases.forEach(([json, message]) => {
+        expect(() => cvFromJSON(json)).toThrow(message);
+      });
+    });
+  });
+
+  describe('Malformed Input', () => {
+    test('Invalid strings', () => {
+      expect(() => stringAsciiCV('café')).toThrow(
+        'Cannot construct clarity ascii string from non-ASCII characters'
+      );
+      expect(() => stringUtf8CV('\ud800')).toThrow(
+        'Cannot construct clarity utf8 string from invalid UTF-16 text'
+      );
+      expect(() => deserializeCV(Buffer.from('0d0000000180', 'hex'))).toThrow(
+        'Cannot construct clarity ascii string from non-ASCII characters'
+      );
+      expect(() => deserializeCV(Buffer.from('0e00000001ff', 'hex'))).toThrow(
+        'Invalid UTF-8 in clarity utf8 string'
+      );
+    });
+
+    test('Truncated buffer', () => {
+      // a buffer value declaring 14 bytes but carrying only 4
+      const truncated = Buffer.from('020000000e74686973', 'hex');
+      expect(() => deserializeCV(truncated)).toThrow(BufferOutOfBoundsError);
+      expect(() => deserializeCV(truncated)).toThrow(
+        'Unexpected end of data: cannot read 14 bytes, 4 remaining at byte offset 5'
+      );
+    });
+
+    test('Truncated tuple', () => {
+      const truncated = Buffer.from('0c000000020362617a0906666f6f626172', 'hex');
+      expect(() => deserializeCV(truncated)).toThrow(
+        'Unexpected end of data: cannot read 1 bytes, 0 remaining at byte offset 17'
+      );
+    });
+  });
+
+  describe('Parse Clarity Literals', () => {
+    function expectParsed(source: string, expected: ClarityValue) {
+      expect(serializeCV(parseCV(source)).toString('hex')).toBe(
+        serializeCV(expected).toString('hex')
+      );
+    }
+
+    test('Atoms', () => {
+      expectParsed('-42', intCV(-42));
+      expectParsed('u30', uintCV(30));
+      expectParsed(
+        'u340282366920938463463374607431768211455',
+        uintCV('340282366920938463463374607431768211455')
+      );
+      expectParsed(
+        '170141183460469231731687303715884105727',
+        intCV('170141183460469231731687303715884105727')
+      );
+      expectParsed(
+        '-170141183460469231731687303715884105728',
+        intCV('-170141183460469231731687303715884105728')
+      );
+      expectParsed('0xdeadbeef', bufferCV(Buffer.from('deadbeef', 'hex')));
+      expectParsed('0x', bufferCV(Buffer.alloc(0)));
+      expectParsed('"say \\"hi\\"\\n"', stringAsciiCV('say "hi"\n'));
+      expectParsed('u"caf\\u{e9} \\u{1f600}"', stringUtf8CV('café 😀'));
+      expectParsed('true', trueCV());
+      expectParsed('false', falseCV());
+      expectParsed('none', noneCV());
+      expectParsed(`'${ADDRESS}`, standardPrincipalCV(ADDRESS));
+      expectParsed(`'${ADDRESS}.kv-store`, contractPrincipalCV(ADDRESS, 'kv-store'));
+    });
+
+    test('Expressions', () => {
+      expectParsed(
+        '(tuple (name "alice") (age u30))',
+        tupleCV({ name: stringAsciiCV('alice'), age: uintCV(30) })
+      );
+      expectParsed('(list 1 2 3)', listCV([intCV(1), intCV(2), intCV(3)]));
+      expectParsed('(list)', listCV([]));
+      expectParsed(`(some '${ADDRESS}.contract)`, someCV(contractPrincipalCV(ADDRESS, 'contract')));
+      expectParsed('(ok (err u1))', responseOkCV(responseErrorCV(uintCV(1))));
+      expectParsed(
+        `
+        ;; a multi-line value
+        (list
+          (tuple (id u1) (owner (some '${ADDRESS})))  ;; first
+          (tuple (id u2) (owner none)))
+        `,
+        listCV([
+          tupleCV({ id: uintCV(1), owner: someCV(standardPrincipalCV(ADDRESS)) }),
+          tupleCV({ id: uintCV(2), owner: noneCV() }),
+        ])
+      );
+    });
+
+    test('Errors point at the offending column', () => {
+      const expectError = (source: string, message: string) => {
+        expect(() => parseCV(source)).toThrow(ClarityParseError);
+        expect(() => parseCV(source)).toThrow(message);
+      };
+
+      expectError('(list 1 2 3', 'Expected ")" at line 1, column 12');
+      expectError('(list 1 2) 3', 'Unexpected "3" after value at line 1, column 12');
+      expectError('(tuple (name "alice") (age u30x))', 'Unexpected "u30x" at line 1, column 28');
+      expectError('(tuple (a 1) (a 2))', 'Duplicate tuple key "a" at line 1, column 15');
+      expectError('(tuple a 1)', 'Expected "(" to start tuple entry at line 1, column 8');
+      expectError('(some 1 2)', 'Expected ")" at line 1, column 9');
+      expectError('(map 1)', 'Unknown expression "map" at line 1, column 2');
+      expectError('0xabc', 'Invalid buffer "0xabc" at line 1, column 1');
+      expectError('"open', 'Unterminated string at line 1, column 1');
+      expectError(
+        '(list "café")',
+        'Invalid ASCII string, use u"..." for UTF-8 at line 1, column 7'
+      );
+      expectError('u"\\u{d800}"', 'Invalid UTF-8 string at line 1, column 1');
+      expectError('"\\q"', 'Invalid escape sequence at line 1, column 2');
+      expectError("'SP000.contract", `Invalid principal "'SP000.contract" at line 1, column 1`);
+      expectError(`'${ADDRESS}.1bad`, 'Invalid contract name "1bad" at line 1, column 44');
+      expectError('u340282366920938463463374607431768211456', 'Integer out of range');
+      expectError('170141183460469231731687303715884105728', 'Integer out of range');
+      expectError('-170141183460469231731687303715884105729', 'Integer out of range');
+      expectError('(list\n  1\n  )x', 'Unexpected "x" after value at line 3, column 4');
+      expectError('', 'Unexpected end of input at line 1, column 1');
+      expectError('(list 1 ; one semicolon\n 2)', 'Unexpected ";" at line 1, column 9');
+      expectError('1 ; one semicolon', 'Unexpected ";" after value at line 1, column 3');
+
+      try {
+        parseCV('(list 1 ?)');
+      } catch (e) {
+        expect(e.line).toBe(1);
+        expect(e.column).toBe(9);
+      }
+    });
+  });
+
+  describe('Print Clarity Values', () => {
+    const value = tupleCV({
+      name: bufferCV(Buffer.from('alice')),
+      age: uintCV(30),
+      balance: intCV(-5),
+      owner: someCV(contractPrincipalCV(ADDRESS, 'vault')),
+      nickname: stringUtf8CV('ali ✨'),
+      tokens: listCV([responseOkCV(trueCV()), responseErrorCV(falseCV())]),
+      empty: listCV([]),
+      manager: noneCV(),
+      admin: standardPrincipalCV(ADDRESS),
+    });
+
+    test('Single line', () => {
+      expect(cvToString(value)).toBe(
+        `(tuple (admin '${ADDRESS}) (age u30) (balance -5) (empty (list)) (manager none) ` +
+          `(name 0x616c696365) (nickname u"ali \\u{2728}") (owner (some '${ADDRESS}.vault)) ` +
+          `(tokens (list (ok true) (err false))))`
+      );
+      expect(cvToString(stringAsciiCV('say "hi"\n'))).toBe('"say \\"hi\\"\\n"');
+      expect(cvToString(stringUtf8CV('café 🌾'))).toBe('u"caf\\u{e9} \\u{1f33e}"');
+      expect(cvToString(intCV('-170141183460469231731687303715884105728'))).toBe(
+        '-170141183460469231731687303715884105728'
+      );
+    });
+
+    test('Multiline', () => {
+      const nested = someCV(
+        listCV([tupleCV({ id: uintCV(1), tags: listCV([intCV(1), intCV(2)]) }), tupleCV({})])
+      );
+      expect(cvToString(nested, true)).toBe(
+        [
+          '(some (list',
+          '  (tuple',
+          '    (id u1)',
+          '    (tags (list',
+          '      1',
+          '      2)))',
+          '  (tuple)))',
+        ].join('\n')
+      );
+      expect(cvToString(uintCV(1), true)).toBe('u1');
+    });
+
+    test('Round trip with the parser', () => {
+      [false, true].forEach(multiline => {
+        const parsed = parseCV(cvToString(value, multiline));
+        expect(serializeCV(parsed).toString('hex')).toBe(serializeCV(value).toString('hex'));
+      });
+    });
+  });
+
+  describe('Type Signatures', () => {
+    test('Infer signature', () => {
+      const value = tupleCV({
+        name: stringAsciiCV('alice'),
+        hash: bufferCV(Buffer.from('0102', 'hex')),
+        owner: someCV(standardPrincipalCV(ADDRESS)),
+        entries: listCV([noneCV(), someCV(listCV([bufferCV(Buffer.from('ab', 'hex'))]))]),
+        results: listCV([responseOkCV(uintCV(1)), responseErrorCV(intCV(-1))]),
+      });
+      const signature = inferSignature(value);
+      expect(signatureToString(signature)).toBe(
+        '(tuple (name (string-ascii 5)) (hash (buff 2)) (owner (optional principal)) ' +
+          '(entries (list 2 (optional (list 1 (buff 1))))) (results (list 2 (response uint int))))'
+      );
+      expect(checkCV(value, signature)).toEqual([]);
+      expect(signatureToString(inferSignature(stringUtf8CV('café 🌾')))).toBe('(string-utf8 6)');
+      expect(signatureToString(inferSignature(listCV([])))).toBe('(list 0 UnknownType)');
+      expect(
+        signatureToString(
+          inferSignature(listCV([bufferCV(Buffer.alloc(2)), bufferCV(Buffer.alloc(5))]))
+        )
+      ).toBe('(list 2 (buff 5))');
+    });
+
+    test('Heterogeneous lists', () => {
+      const value = listCV([intCV(1), uintCV(2)]);
+      expect(checkCV(value)).toEqual([
+        {
+          path: 'value[1]',
+          message: 'list entries must have the same type, expected int, found uint',
+        },
+      ]);
+      expect(() => inferSignature(value)).toThrow(
+        'Invalid Clarity value at value[1]: list entries must have the same type, expected int, found uint'
+      );
+      const tuples = listCV([tupleCV({ a: intCV(1) }), tupleCV({ b: intCV(1) })]);
+      expect(checkCV(tuples).map(mismatch => mismatch.path)).toEqual(['value[1]']);
+      expect(checkCV(listCV([someCV(intCV(1)), noneCV(), someCV(uintCV(1))]))).toHaveLength(1);
+    });
+
+    test('Check against signature', () => {
+      const signature: ClarityTypeSignature = {
+        type: 'tuple',
+        fields: {
+          id: { type: 'uint' },
+          hash: { type: 'buff', length: 4 },
+          label: { type: 'string-utf8', length: 3 },
+          tags: { type: 'list', entry: { type: 'int' }, length: 2 },
+          result: { type: 'response', ok: { type: 'bool' }, err: { type: 'uint' } },
+        },
+      };
+      expect(signatureToString(signature)).toBe(
+        '(tuple (id uint) (hash (buff 4)) (label (string-utf8 3)) (tags (list 2 int)) ' +
+          '(result (response bool uint)))'
+      );
+      const valid = tupleCV({
+        id: uintCV(1),
+        hash: bufferCV(Buffer.alloc(4)),
+        label: stringUtf8CV('🌾🌾🌾'),
+        tags: listCV([intCV(1)]),
+        result: responseErrorCV(uintCV(3)),
+      });
+      expect(checkCV(valid, signature)).toEqual([]);
+      const invalid = tupleCV({
+        id: intCV(1),
+        hash: bufferCV(Buffer.alloc(5)),
+        label: stringAsciiCV('abc'),
+        tags: listCV([intCV(1), uintCV(2), intCV(3)]),
+        result: responseOkCV(someCV(trueCV())),
+        extra: trueCV(),
+      });
+      expect(checkCV(invalid, signature)).toEqual([
+        { path: 'value.id', message: 'expected uint, found int' },
+        { path: 'value.hash', message: 'buffer of 5 bytes exceeds (buff 4)' },
+        { path: 'value.label', message: 'expected (string-utf8 3), found string-ascii' },
+        { path: 'value.tags', message: 'list of 3 entries exceeds (list 2 int)' },
+        { path: 'value.tags[1]', message: 'expected int, found uint' },
+        { path: 'value.result.ok', message: 'expected bool, found optional' },
+        { path: 'value.extra', message: 'unexpected tuple field "extra"' },
+      ]);
+      expect(checkCV(tupleCV({}), { type: 'tuple', fields: { id: { type: 'uint' } } })).toEqual([
+        { path: 'value', message: 'missing tuple field "id"' },
+      ]);
+      expect(checkCV(stringUtf8CV('abcd'), { type: 'string-utf8', length: 3 })).toEqual([
+        { path: 'value', message: 'string of 4 characters exceeds (string-utf8 3)' },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+
+import { generateContractClient } from '../../src/codegen';
+
+import { abiFromJSON } from '../../src/abi';
+
+import { analyzeContract } from '../../src/analyze';
+
+import { makeContractCall, makeUnsignedContractCall } from '../../src/builders';
+
+import { bufferCV } from '../../src/clarity';
+
+import { TransactionVersion } from '../../src/constants';
+
+import { StacksPrivateKey, PrivateKeySigner } from '../../src/keys';
+
+import { kvStore } from './contracts/kv-store-client';
+
+import * as BigNum from 'bn.js';
+
+const contractAddress = 'ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE';
+const secretKey = 'e494f188c2d35887531ba474c433b1e41fadd8eb824aca983447fd4bb8b277a801';
+
+test('Generated kv-store client is up to date', () => {
+  const abi = abiFromJSON(fs.readFileSync('./tests/src/contracts/kv-store-abi.json').toString());
+  const source = generateContractClient(abi, {
+    contractAddress,
+    contractName: 'kv-store',
+    importPath: '../../../src',
+  });
+  expect(source).toBe(fs.readFileSync('./tests/src/contracts/kv-store-client.ts').toString());
+});
+
+test('Generated client builds contract calls', () => {
+  const key = Buffer.from('foo');
+  const value = Buffer.from('bar');
+  const options = {
+    feeRate: new BigNum(0),
+    senderKey: secretKey,
+    nonce: new BigNum(1),
+    version: TransactionVersion.Testnet,
+  };
+
+  const transaction = kvStore.setValue({ key, value }, options);
+  const expected = makeContractCall(
+    contractAddress,
+    'kv-store',
+    'set-value',
+    [bufferCV(key), bufferCV(value)],
+    new BigNum(0),
+    secretKey,
+    { nonce: new BigNum(1), version: TransactionVersion.Testnet }
+  );
+  expect(transaction.serialize().toString('hex')).toBe(expected.serialize().toString('hex'));
+
+  const otherAddress = 'ST1EXHZSN8MJSJ9DSG994G1V8CNKYXGMK7Z4SA6DH';
+  const other = kvStore.getValue({ key }, { ...options, contractAddress: otherAddress });
+  expect(other.payload!.contractAddress!.toString()).toBe(otherAddress);
+
+  expect(() => kvStore.getValue({ key: Buffer.alloc(33) }, options)).toThrow(
+    'Invalid argument "key": buffer of 33 bytes exceeds (buff 32)'
+  );
+});
+
+test('Generated client builds unsigned and externally signed contract calls', async () => {
+  const key = Buffer.from('foo');
+  const value = Buffer.from('bar');
+  const privateKey = new StacksPrivateKey(secretKey);
+  const callOptions = { nonce: new BigNum(1), version: TransactionVersion.Testnet };
+  const options = { ...callOptions, feeRate: new BigNum(0) };
+
+  const publicKey = privateKey.getPublicKey().toString();
+  const unsigned = kvStore.setValueUnsigned({ key, value }, { ...options, sender: publicKey });
+  const expectedUnsigned = makeUnsignedContractCall(
+    contractAddress,
+    'kv-store',
+    'set-value',
+    [bufferCV(key), bufferCV(value)],
+    new BigNum(0),
+    publicKey,
+    callOptions
+  );
+  expect(unsigned.serialize().toString('hex')).toBe(expectedUnsigned.serialize().toString('hex'));
+
+  const signer = new PrivateKeySigner(privateKey);
+  const signed = await kvStore.setValueWithSigner({ key, value }, { ...options, signer });
+  const expected = kvStore.setValue({ key, value }, { ...options, senderKey: secretKey });
+  expect(signed.serialize().toString('hex')).toBe(expected.serialize().toString('hex'));
+});
+
+test('Generated client types', () => {
+  const abi = analyzeContract(`
+    (define-non-fungible-token ticket uint)
+    (define-public (buy-ticket (ticket-id uint) (memo (optional (string-utf8 34)))
+                              (seats (list 4 { row: uint, seat-number: int })))
+      (ok true))
+    (define-public (total-sales) (ok u0))
+    (define-read-only (get-price (ticket-id uint)) u100)
+    (define-private (check (owner principal)) true)
+  `);
+  const source = generateContractClient(abi, {
+    contractAddress,
+    contractName: 'ticket-office',
+  });
+
+  expect(source).toContain("} from '@blockstack/stacks-transactions';");
+  expect(source).toContain(
+    'export interface TicketOfficeCallOptions extends TicketOfficeBaseCallOptions'
+  );
+  expect(source).toContain(
+    [
+      'export interface TicketOfficeBuyTicketArgs {',
+      '  ticketId: BigNum | number | bigint | string;',
+      '  memo: string | null;',
+      '  seats: { row: BigNum | number | bigint | string; seatNumber: BigNum | number | bigint | string }[];',
+      '}',
+    ].join('\n')
+  );
+  expect(source).toContain(
+    [
+      'function buyTicketArgs(args: TicketOfficeBuyTicketArgs): { [name: string]: ClarityArgValue } {',
+      '  return {',
+      "    'ticket-id': args.ticketId,",
+      '    memo: args.memo,',
+      "    seats: args.seats.map(entry => ({ row: entry.row, 'seat-number': entry.seatNumber })),",
+      '  };',
+      '}',
+    ].join('\n')
+  );
+  expect(source).toContain(
+    [
+      '  buyTicket(args: TicketOfficeBuyTicketArgs, options: TicketOfficeCallOptions): StacksTransaction {',
+      "    return callContract('buy-ticket', buyTicketArgs(args), options);",
+      '  },',
+    ].join('\n')
+  );
+  expect(source).toContain(
+    [
+      '  buyTicketWithSigner(',
+      '    args: TicketOfficeBuyTicketArgs,',
+      '    options: TicketOfficeSignerCallOptions',
+      '  ): Promise<StacksTransaction> {',
+      "    return callContractWithSigner('buy-ticket', buyTicketArgs(args), options);",
+      '  },',
+    ].join('\n')
+  );
+  expect(source).toContain(
+    [
+      '  totalSales(options: TicketOfficeCallOptions): StacksTransaction {',
+      "    return callContract('total-sales', {}, options);",
+      '  },',
+    ].join('\n')
+  );
+  expect(source).toContain(
+    [
+      '  totalSalesUnsigned(options: TicketOfficeUnsignedCallOptions): StacksTransaction {',
+      "    return callContractUnsigned('total-sales', {}, options);",
+      '  },',
+    ].join('\n')
+  );
+  expect(source).toContain('export const ticketOffice = {');
+  expect(source).not.toContain('getPrice');
+  expect(source).not.toContain('check(');
+});
@@ -0,0 +1,187 @@
+// Generated from the ABI of ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE.kv-store, do not edit.
+import * as BigNum from 'bn.js';
+
+import {
+  ClarityArgValue,
+  ContractCallOptions,
+  MessageSigner,
+  MultiSigSender,
+  StacksTransaction,
+  abiFromJSON,
+  encodeFunctionArgs,
+  getAbiFunction,
+  makeContractCall,
+  makeContractCallWithSigner,
+  makeUnsignedContractCall,
+} from '../../../src';
+
+const CONTRACT_ADDRESS = 'ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE';
+const CONTRACT_NAME = 'kv-store';
+
+const abi = abiFromJSON(
+  '{"functions":[{"name":"get-value","access":"public","args":[{"name":"key","type":{"buffer":{"length":32}}}],"outputs":{"type":{"response":{"ok":{"buffer":{"length":32}},"error":"int128"}}}},{"name":"set-value","access":"public","args":[{"name":"key","type":{"buffer":{"length":32}}},{"name":"value","type":{"buffer":{"length":32}}}],"outputs":{"type":{"response":{"ok":"bool","error":"none"}}}}],"variables":[],"maps":[{"name":"store","key":{"tuple":[{"name":"key","type":{"buffer":{"length":32}}}]},"value":{"tuple":[{"name":"value","type":{"buffer":{"length":32}}}]}}],"fungible_tokens":[],"non_fungible_tokens":[]}'
+);
+
+/**
+ * Options for calling kv-store: the fee rate passed to the transaction builders,
+ * and optionally the address of another deployment of the contract
+ */
+export interface KvStoreBaseCallOptions extends ContractCallOptions {
+  feeRate: BigNum;
+  contractAddress?: string;
+}
+
+/**
+ * Options for calls signed with the private key of the sender
+ */
+export interface KvStoreCallOptions extends KvStoreBaseCallOptions {
+  senderKey: string;
+}
+
+/**
+ * Options for unsigned calls, from the public key of a single-sig sender or a multi-sig sender
+ */
+export interface KvStoreUnsignedCallOptions extends KvStoreBaseCallOptions {
+  sender: string | MultiSigSender;
+}
+
+/**
+ * Options for calls signed by a message signer, e.g. backed by an HSM or KMS
+ */
+export interface KvStoreSignerCallOptions extends KvStoreBaseCallOptions {
+  signer: MessageSigner;
+}
+
+export interface KvStoreGetValueArgs {
+  key: Buffer;
+}
+
+export interface KvStoreSetValueArgs {
+  key: Buffer;
+  value: Buffer;
+}
+
+function getValueArgs(args: KvStoreGetValueArgs): { [name: string]: ClarityArgValue } {
+  return {
+    key: args.key,
+  };
+}
+
+function setValueArgs(args: KvStoreSetValueArgs): { [name: string]: ClarityArgValue } {
+  return {
+    key: args.key,
+    value: args.value,
+  };
+}
+
+function callContract(
+  functionName: string,
+  args: { [name: string]: ClarityArgValue },
+  options: KvStoreCallOptions
+): StacksTransaction {
+  const { contractAddress, feeRate, senderKey, ...callOptions } = options;
+  return makeContractCall(
+    contractAddress ?? CONTRACT_ADDRESS,
+    CONTRACT_NAME,
+    functionName,
+    encodeFunctionArgs(getAbiFunction(abi, functionName), args),
+    feeRate,
+    senderKey,
+    { ...callOptions, abi }
+  );
+}
+
+function callContractUnsigned(
+  functionName: string,
+  args: { [name: string]: ClarityArgValue },
+  options: KvStoreUnsignedCallOptions
+): StacksTransaction {
+  const { contractAddress, feeRate, sender, ...callOptions } = options;
+  return makeUnsignedContractCall(
+    contractAddress ?? CONTRACT_ADDRESS,
+    CONTRACT_NAME,
+    functionName,
+    encodeFunctionArgs(getAbiFunction(abi, functionName), args),
+    feeRate,
+    sender,
+    { ...callOptions, abi }
+  );
+}
+
+function callContractWithSigner(
+  functionName: string,
+  args: { [name: string]: ClarityArgValue },
+  options: KvStoreSignerCallOptions
+): Promise<StacksTransaction> {
+  const { contractAddress, feeRate, signer, ...callOptions } = options;
+  return makeContractCallWithSigner(
+    contractAddress ?? CONTRACT_ADDRESS,
+    CONTRACT_NAME,
+    functionName,
+    encodeFunctionArgs(getAbiFunction(abi, functionName), args),
+    feeRate,
+    signer,
+    { ...callOptions, abi }
+  );
+}
+
+export const kvStore = {
+  /**
+   * Calls get-value, signed with the sender key
+   *
+   * @param  key - (buff 32)
+   */
+  getValue(args: KvStoreGetValueArgs, options: KvStoreCallOptions): StacksTransaction {
+    return callContract('get-value', getValueArgs(args), options);
+  },
+
+  /**
+   * Builds the unsigned call to get-value, see {@link getValue}
+   */
+  getValueUnsigned(
+    args: KvStoreGetValueArgs,
+    options: KvStoreUnsignedCallOptions
+  ): StacksTransaction {
+    return callContractUnsigned('get-value', getValueArgs(args), options);
+  },
+
+  /**
+   * Calls get-value, signed by the signer, see {@link getValue}
+   */
+  getValueWithSigner(
+    args: KvStoreGetValueArgs,
+    options: KvStoreSignerCallOptions
+  ): Promise<StacksTransaction> {
+    return callContractWithSigner('get-value', getValueArgs(args), options);
+  },
+
+  /**
+   * Calls set-value, signed with the sender key
+   *
+   * @param  key - (buff 32)
+   * @param  value - (buff 32)
+   */
+  setValue(args: KvStoreSetValueArgs, options: KvStoreCallOptions): StacksTransaction {
+    return callContract('set-value', setValueArgs(args), options);
+  },
+
+  /**
+   * Builds the unsigned call to set-value, see {@link setValue}
+   */
+  setValueUnsigned(
+    args: KvStoreSetValueArgs,
+    options: KvStoreUnsignedCallOptions
+  ): StacksTransaction {
+    return callContractUnsigned('set-value', setValueArgs(args), options);
+  },
+
+  /**
+   * Calls set-value, signed by the signer, see {@link setValue}
+   */
+  setValueWithSigner(
+    args: KvStoreSetValueArgs,
+    options: KvStoreSignerCallOptions
+  ): Promise<StacksTransaction> {
+    return callContractWithSigner('set-value', setValueArgs(args), options);
+  },
+};
@@ -0,0 +1,136 @@
+import { describeTransaction, formatSTX } from '../../src/describe';
+
+import {
+  makeSTXTokenTransfer,
+  makeContractCall,
+  makeStandardSTXPostCondition,
+  makeContractFungiblePostCondition,
+  makeStandardNonFungiblePostCondition,
+  sponsorTransaction,
+} from '../../src/builders';
+
+import { AssetInfo } from '../../src/types';
+
+import {
+  FungibleConditionCode,
+  NonFungibleConditionCode,
+  TransactionVersion,
+} from '../../src/constants';
+
+import { uintCV, bufferCV, someCV, standardPrincipalCV, tupleCV } from '../../src/clarity';
+
+import * as BigNum from 'bn.js';
+
+test('Format STX amounts', () => {
+  expect(formatSTX(new BigNum(0))).toBe('0 STX');
+  expect(formatSTX(new BigNum(5000000))).toBe('5 STX');
+  expect(formatSTX(new BigNum(1500000))).toBe('1.5 STX');
+  expect(formatSTX(new BigNum(12345))).toBe('0.012345 STX');
+  expect(formatSTX(new BigNum('18446744073709551615'))).toBe('18446744073709.551615 STX');
+});
+
+test('Describe serialized STX token transfer', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const secretKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const transaction = makeSTXTokenTransfer(
+    recipientAddress,
+    new BigNum(5000000),
+    new BigNum(180),
+    secretKey,
+    { memo: 'rent', nonce: new BigNum(4) }
+  );
+
+  const description = describeTransaction(transaction.serialize().toString('hex'));
+  expect(description).toEqual({
+    txid: transaction.txid(),
+    network: 'mainnet',
+    sender: { address: 'SPAW66WC3G8WA5F28JVNG1NTRJ6H76E7EN5H6QQD', nonce: '4', fee: '0.00018 STX' },
+    action: `transfer 5 STX to ${recipientAddress} with memo "rent"`,
+    postConditionMode: 'deny',
+    postConditions: [],
+  });
+});
+
+test('Describe sponsored contract call with post conditions', () => {
+  const contractAddress = 'ST3KC0MTNW34S1ZXD36JYKFD3JJMWA01M55DSJ4JE';
+  const senderKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const sponsorKey = '9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401';
+  const sender = 'STAW66WC3G8WA5F28JVNG1NTRJ6H76E7EMHDBMBN';
+  const assetInfo = new AssetInfo(contractAddress, 'token', 'coin');
+
+  const postConditions = [
+    makeStandardSTXPostCondition(sender, FungibleConditionCode.LessEqual, new BigNum(1000000)),
+    makeContractFungiblePostCondition(
+      contractAddress,
+      'kv-store',
+      FungibleConditionCode.Equal,
+      new BigNum(25),
+      assetInfo
+    ),
+    makeStandardNonFungiblePostCondition(
+      sender,
+      NonFungibleConditionCode.DoesNotOwn,
+      assetInfo,
+      uintCV(1)
+    ),
+  ];
+
+  const transaction = makeContractCall(
+    contractAddress,
+    'kv-store',
+    'set-value',
+    [
+      bufferCV(Buffer.from('foo')),
+      tupleCV({ amount: uintCV(10), owner: someCV(standardPrincipalCV(sender)) }),
+    ],
+    new BigNum(0),
+    senderKey,
+    { version: TransactionVersion.Testnet, postConditions, sponsored: true }
+  );
+  const sponsored = sponsorTransaction(transaction, sponsorKey, new BigNum(2500), {
+    nonce: new BigNum(9),
+  });
+
+  const description = describeTransaction(sponsored);
+  expect(description.network).toBe('testnet');
+  expect(description.sender.address).toBe(sender);
+  expect(description.sponsor).toEqual({
+    address: 'ST2TPJ3NEZ63MMJ8AY9S45HZ10QSH51YF93GE89GQ',
+    nonce: '9',
+    fee: '0.0025 STX',
+  });
+  expect(description.action).toBe(
+    `call kv-store.set-value of ${contractAddress} with ` +
+      `(0x666f6f, (tuple (amount u10) (owner (some '${sender}))))`
+  );
+  expect(description.postConditions).toEqual([
+    `${sender} will send at most 1 STX`,
+    `${contractAddress}.kv-store will send exactly 25 ${contractAddress}.token::coin`,
+    `${sender} will not own ${contractAddress}.token::coin u1`,
+  ]);
+});
+
+test('Describe transaction with missing fields', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const secretKey = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+  const assetInfo = new AssetInfo(recipientAddress, 'token', 'coin');
+  const makeTransaction = () =>
+    makeSTXTokenTransfer(recipientAddress, new BigNum(5000000), new BigNum(180), secretKey, {
+      postConditions: [
+        makeStandardNonFungiblePostCondition(
+          recipientAddress,
+          NonFungibleConditionCode.Owns,
+          assetInfo,
+          uintCV(1)
+        ),
+      ],
+    });
+
+  const withoutMemo = makeTransaction();
+  withoutMemo.payload!.memo = undefined;
+  expect(() => describeTransaction(withoutMemo)).toThrow('"memo" is undefined');
+
+  const withoutAssetName = makeTransaction();
+  withoutAssetName.postConditions[0].assetName = undefined;
+  expect(() => describeTransaction(withoutAssetName)).toThrow('"assetName" is undefined');
+});
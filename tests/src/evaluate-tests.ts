@@ -0,0 +1,206 @@
+import { evaluatePostConditions, AssetTransferEvent } from '../../src/evaluate';
+
+import {
+  makeStandardSTXPostCondition,
+  makeContractSTXPostCondition,
+  makeStandardFungiblePostCondition,
+  makeStandardNonFungiblePostCondition,
+  makeOriginSTXPostCondition,
+} from '../../src/builders';
+
+import { AssetInfo, StandardPrincipal, ContractPrincipal } from '../../src/types';
+
+import {
+  AssetType,
+  PostConditionMode,
+  FungibleConditionCode,
+  NonFungibleConditionCode,
+} from '../../src/constants';
+
+import { uintCV } from '../../src/clarity';
+
+import * as BigNum from 'bn.js';
+
+const sender = 'SP2JXKMSH007NPYAQHKJPQMAQYAD90NQGTVJVQ02B';
+const recipient = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+const contractName = 'contract-name';
+const assetInfo = new AssetInfo(sender, 'token', 'coin');
+const otherAssetInfo = new AssetInfo(sender, 'token', 'other-coin');
+
+function stxTransfer(amount: number): AssetTransferEvent {
+  return {
+    assetType: AssetType.STX,
+    sender: new StandardPrincipal(sender),
+    recipient: new StandardPrincipal(recipient),
+    amount: new BigNum(amount),
+  };
+}
+
+test('Fungible condition codes compare the total amount sent', () => {
+  const events = [stxTransfer(400), stxTransfer(600)];
+  const expectations: [FungibleConditionCode, number, boolean][] = [
+    [FungibleConditionCode.Equal, 1000, true],
+    [FungibleConditionCode.Equal, 999, false],
+    [FungibleConditionCode.Greater, 999, true],
+    [FungibleConditionCode.Greater, 1000, false],
+    [FungibleConditionCode.GreaterEqual, 1000, true],
+    [FungibleConditionCode.GreaterEqual, 1001, false],
+    [FungibleConditionCode.Less, 1001, true],
+    [FungibleConditionCode.Less, 1000, false],
+    [FungibleConditionCode.LessEqual, 1000, true],
+    [FungibleConditionCode.LessEqual, 999, false],
+  ];
+
+  expectations.forEach(([conditionCode, amount, passed]) => {
+    const postCondition = makeStandardSTXPostCondition(sender, conditionCode, new BigNum(amount));
+    const evaluation = evaluatePostConditions([postCondition], PostConditionMode.Allow, events);
+    expect(evaluation.passed).toBe(passed);
+    expect(evaluation.results).toEqual([{ postCondition, passed }]);
+  });
+
+  const nothingSent = makeStandardSTXPostCondition(
+    recipient,
+    FungibleConditionCode.Equal,
+    new BigNum(0)
+  );
+  expect(evaluatePostConditions([nothingSent], PostConditionMode.Allow, events).passed).toBe(true);
+});
+
+test('Fungible token post conditions only count transfers of the same asset', () => {
+  const events: AssetTransferEvent[] = [
+    {
+      assetType: AssetType.Fungible,
+      sender: new StandardPrincipal(sender),
+      recipient: new StandardPrincipal(recipient),
+      amount: new BigNum(25),
+      assetInfo: new AssetInfo(sender, 'token', 'coin'),
+    },
+    {
+      assetType: AssetType.Fungible,
+      sender: new StandardPrincipal(sender),
+      amount: new BigNum(75),
+      assetInfo: otherAssetInfo,
+    },
+  ];
+  const postCondition = makeStandardFungiblePostCondition(
+    sender,
+    FungibleConditionCode.Equal,
+    new BigNum(25),
+    assetInfo
+  );
+
+  const allow = evaluatePostConditions([postCondition], PostConditionMode.Allow, events);
+  expect(allow.passed).toBe(true);
+  expect(allow.unchecked).toEqual([]);
+
+  const deny = evaluatePostConditions([postCondition], PostConditionMode.Deny, events);
+  expect(deny.passed).toBe(false);
+  expect(deny.results[0].passed).toBe(true);
+  expect(deny.unchecked).toEqual([events[1]]);
+});
+
+test('Non-fungible post conditions check whether the token was sent', () => {
+  const events: AssetTransferEvent[] = [
+    {
+      assetType: AssetType.NonFungible,
+      sender: new StandardPrincipal(sender),
+      recipient: new StandardPrincipal(recipient),
+      assetInfo,
+      assetName: uintCV(1),
+    },
+  ];
+  const sent = makeStandardNonFungiblePostCondition(
+    sender,
+    NonFungibleConditionCode.DoesNotOwn,
+    assetInfo,
+    uintCV(1)
+  );
+  const kept = makeStandardNonFungiblePostCondition(
+    sender,
+    NonFungibleConditionCode.Owns,
+    assetInfo,
+    uintCV(2)
+  );
+  const notKept = makeStandardNonFungiblePostCondition(
+    sender,
+    NonFungibleConditionCode.Owns,
+    assetInfo,
+    uintCV(1)
+  );
+  const notSent = makeStandardNonFungiblePostCondition(
+    recipient,
+    NonFungibleConditionCode.DoesNotOwn,
+    assetInfo,
+    uintCV(1)
+  );
+
+  const evaluation = evaluatePostConditions(
+    [sent, kept, notKept, notSent],
+    PostConditionMode.Deny,
+    events
+  );
+  expect(evaluation.results.map(result => result.passed)).toEqual([true, true, false, false]);
+  expect(evaluation.unchecked).toEqual([]);
+  expect(evaluation.passed).toBe(false);
+
+  const otherToken = evaluatePostConditions([kept], PostConditionMode.Deny, events);
+  expect(otherToken.passed).toBe(false);
+  expect(otherToken.unchecked).toEqual(events);
+});
+
+test('Deny mode requires a post condition for every sender', () => {
+  const contractTransfer: AssetTransferEvent = {
+    assetType: AssetType.STX,
+    sender: new ContractPrincipal(sender, contractName),
+    recipient: new StandardPrincipal(recipient),
+    amount: new BigNum(10),
+  };
+  const events = [stxTransfer(100), contractTransfer];
+  const standardPostCondition = makeStandardSTXPostCondition(
+    sender,
+    FungibleConditionCode.LessEqual,
+    new BigNum(100)
+  );
+  const contractPostCondition = makeContractSTXPostCondition(
+    sender,
+    contractName,
+    FungibleConditionCode.LessEqual,
+    new BigNum(10)
+  );
+
+  const partial = evaluatePostConditions([standardPostCondition], PostConditionMode.Deny, events);
+  expect(partial.passed).toBe(false);
+  expect(partial.unchecked).toEqual([contractTransfer]);
+
+  const full = evaluatePostConditions(
+    [standardPostCondition, contractPostCondition],
+    PostConditionMode.Deny,
+    events
+  );
+  expect(full.passed).toBe(true);
+
+  expect(evaluatePostConditions([], PostConditionMode.Deny, []).passed).toBe(true);
+  expect(evaluatePostConditions([], PostConditionMode.Allow, events).passed).toBe(true);
+});
+
+test('Origin post conditions apply to the transaction origin', () => {
+  const events = [stxTransfer(100)];
+  const postCondition = makeOriginSTXPostCondition(FungibleConditionCode.Equal, new BigNum(100));
+
+  expect(
+    evaluatePostConditions([postCondition], PostConditionMode.Deny, events, sender).passed
+  ).toBe(true);
+
+  const otherOrigin = evaluatePostConditions(
+    [postCondition],
+    PostConditionMode.Deny,
+    events,
+    recipient
+  );
+  expect(otherOrigin.results[0].passed).toBe(false);
+  expect(otherOrigin.unchecked).toEqual(events);
+
+  expect(() => evaluatePostConditions([postCondition], PostConditionMode.Allow, events)).toThrow(
+    '"origin" is undefined'
+  );
+});
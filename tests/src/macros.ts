@@ -1,5 +1,7 @@
 import { StacksMessage } from '../../src/message';
 
+import { DeserializationError } from '../../src/errors';
+
 import { BufferReader } from '../../src/utils';
 
 export function serializeDeserialize<T extends StacksMessage>(model: T, type: new () => T) {
@@ -9,3 +11,33 @@ export function serializeDeserialize<T extends StacksMessage>(model: T, type: ne
   deserialized.deserialize(bufferReader);
   return deserialized;
 }
+
+export function jsonRoundTrip<T extends StacksMessage>(model: T, type: new () => T) {
+  const json = JSON.parse(JSON.stringify(model));
+  const restored = new type();
+  restored.fromJSON(json);
+  return restored;
+}
+
+export function expectDeserializationError<T extends StacksMessage>(
+  type: new () => T,
+  data: Buffer,
+  message: string,
+  offset: number
+) {
+  try {
+    new type().deserialize(new BufferReader(data));
+  } catch (error) {
+    expect(error).toBeInstanceOf(DeserializationError);
+    expect(error.message).toBe(`${message} at byte offset ${offset}`);
+    expect(error.offset).toBe(offset);
+    return;
+  }
+  throw new Error('Expected deserialization to fail');
+}
+
+export function replaceByte(data: Buffer, offset: number, byte: number) {
+  const replaced = Buffer.from(data);
+  replaced[offset] = byte;
+  return replaced;
+}
@@ -1,13 +1,14 @@
 import {
+  Payload,
   TokenTransferPayload,
   ContractCallPayload,
   SmartContractPayload,
   CoinbasePayload,
 } from '../../src/payload';
 
-import { serializeDeserialize } from './macros';
+import { serializeDeserialize, jsonRoundTrip } from './macros';
 
-import { trueCV, falseCV } from '../../src/clarity';
+import { trueCV, falseCV, intCV, bufferCV } from '../../src/clarity';
 
 import * as BigNum from 'bn.js';
 
@@ -66,3 +67,81 @@ test('Coinbase payload serialization and deserialization', () => {
   const deserialized = serializeDeserialize(payload, CoinbasePayload);
   expect(deserialized.coinbaseBuffer!.toString()).toBe(coinbaseBuffer.toString());
 });
+
+test('Payload JSON round trip', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const tokenTransfer = new TokenTransferPayload(recipientAddress, new BigNum(2500000), 'memo');
+  expect(tokenTransfer.toJSON()).toEqual({
+    payloadType: 'TokenTransfer',
+    recipientAddress,
+    amount: '2500000',
+    memo: 'memo',
+  });
+
+  const contractCall = new ContractCallPayload(recipientAddress, 'kv-store', 'set-value', [
+    intCV(-1),
+    bufferCV(Buffer.from('foo')),
+  ]);
+  expect(contractCall.toJSON().functionArgs).toEqual([
+    { type: 'Int', value: '-1' },
+    { type: 'Buffer', value: '666f6f' },
+  ]);
+
+  const coinbaseBuffer = Buffer.alloc(COINBASE_BUFFER_LENGTH_BYTES, 0);
+  coinbaseBuffer.write('coinbase buffer');
+
+  const payloads = [
+    tokenTransfer,
+    contractCall,
+    new SmartContractPayload('contract_name', "(define-public (foo) (ok 'true))"),
+    new CoinbasePayload(coinbaseBuffer),
+  ];
+  payloads.forEach(payload => {
+    const restored = jsonRoundTrip(payload, Payload);
+    expect(restored.serialize().toString('hex')).toBe(payload.serialize().toString('hex'));
+  });
+
+  // memos read from the wire are zero padded, the padding is left out of the JSON
+  const deserialized = serializeDeserialize(tokenTransfer, TokenTransferPayload);
+  expect(deserialized.toJSON().memo).toBe('memo');
+});
+
+test('Payload JSON with missing or malformed fields', () => {
+  expect(() => Payload.fromJSON({ payloadType: 'SmartContract' })).toThrow(
+    '"contractName" is undefined'
+  );
+  expect(() => Payload.fromJSON({ payloadType: 'SmartContract', contractName: 'foo' })).toThrow(
+    '"codeBody" is undefined'
+  );
+  expect(() => Payload.fromJSON({ payloadType: 'Coinbase' })).toThrow(
+    '"coinbaseBuffer" is undefined'
+  );
+
+  const contractCall = new ContractCallPayload(
+    'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159',
+    'kv-store',
+    'get-value',
+    []
+  ).toJSON();
+  delete contractCall.functionArgs;
+  expect(() => Payload.fromJSON(contractCall)).toThrow('"functionArgs" is undefined');
+  expect(() =>
+    Payload.fromJSON({ ...contractCall, functionArgs: [{ type: 'UInt', value: '1.5' }] })
+  ).toThrow('Invalid UInt "1.5"');
+
+  const tokenTransfer = new TokenTransferPayload(
+    'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159',
+    new BigNum(2500000),
+    'memo'
+  ).toJSON();
+  expect(() => Payload.fromJSON({ ...tokenTransfer, amount: undefined })).toThrow(
+    '"amount" is undefined'
+  );
+  expect(() => Payload.fromJSON({ ...tokenTransfer, amount: '1.5' })).toThrow(
+    'Invalid amount "1.5"'
+  );
+  expect(() => Payload.fromJSON({ ...tokenTransfer, amount: '-1' })).toThrow('Invalid amount "-1"');
+  expect(() => Payload.fromJSON({ ...tokenTransfer, memo: undefined })).toThrow(
+    '"memo" is undefined'
+  );
+});
@@ -0,0 +1,140 @@
+import { Pc } from '../../src/pc';
+
+import {
+  makeStandardSTXPostCondition,
+  makeContractSTXPostCondition,
+  makeOriginSTXPostCondition,
+  makeStandardFungiblePostCondition,
+  makeContractNonFungiblePostCondition,
+  makeOriginNonFungiblePostCondition,
+} from '../../src/builders';
+
+import { AssetInfo } from '../../src/types';
+
+import { FungibleConditionCode, NonFungibleConditionCode } from '../../src/constants';
+
+import { PostCondition } from '../../src/postcondition';
+
+import { uintCV } from '../../src/clarity';
+
+import * as BigNum from 'bn.js';
+
+const address = 'SP2JXKMSH007NPYAQHKJPQMAQYAD90NQGTVJVQ02B';
+const assetAddress = 'SP2ZP4GJDZJ1FDHTQ963F0292PE9J9752TZJ68F21';
+const assetInfo = new AssetInfo(assetAddress, 'contract_name', 'asset_name');
+
+function expectSameBytes(postCondition: PostCondition, expected: PostCondition) {
+  expect(postCondition.serialize().toString('hex')).toBe(expected.serialize().toString('hex'));
+}
+
+test('Fluent STX post conditions', () => {
+  expectSameBytes(
+    Pc.principal(address)
+      .willSendLte(100)
+      .ustx(),
+    makeStandardSTXPostCondition(address, FungibleConditionCode.LessEqual, new BigNum(100))
+  );
+  expectSameBytes(
+    Pc.principal(`${address}.contract-name`)
+      .willSendGt(new BigNum(5))
+      .ustx(),
+    makeContractSTXPostCondition(
+      address,
+      'contract-name',
+      FungibleConditionCode.Greater,
+      new BigNum(5)
+    )
+  );
+  expectSameBytes(
+    Pc.origin()
+      .willSendEq(1)
+      .ustx(),
+    makeOriginSTXPostCondition(FungibleConditionCode.Equal, new BigNum(1))
+  );
+
+  expect(
+    Pc.principal(address)
+      .willSendGte(1)
+      .ustx().conditionCode
+  ).toBe(FungibleConditionCode.GreaterEqual);
+  expect(
+    Pc.principal(address)
+      .willSendLt(1)
+      .ustx().conditionCode
+  ).toBe(FungibleConditionCode.Less);
+});
+
+test('Fluent fungible and non-fungible post conditions', () => {
+  expectSameBytes(
+    Pc.principal(address)
+      .willSendGte(1000)
+      .ft(`${assetAddress}.contract_name::asset_name`),
+    makeStandardFungiblePostCondition(
+      address,
+      FungibleConditionCode.GreaterEqual,
+      new BigNum(1000),
+      assetInfo
+    )
+  );
+  expectSameBytes(
+    Pc.principal(`${address}.market`)
+      .willNotSendAsset(uintCV(1))
+      .of(`${assetAddress}.contract_name::asset_name`),
+    makeContractNonFungiblePostCondition(
+      address,
+      'market',
+      NonFungibleConditionCode.Owns,
+      assetInfo,
+      uintCV(1)
+    )
+  );
+  expectSameBytes(
+    Pc.origin()
+      .willSendAsset(uintCV(1))
+      .of(`${assetAddress}.contract_name::asset_name`),
+    makeOriginNonFungiblePostCondition(NonFungibleConditionCode.DoesNotOwn, assetInfo, uintCV(1))
+  );
+});
+
+test('Fluent post condition input validation', () => {
+  expect(() => Pc.principal('not-an-address')).toThrow('"not-an-address" is not a valid principal');
+  expect(() => Pc.principal(`${address}.a.b`)).toThrow(`"${address}.a.b" is not a valid principal`);
+  expect(() => Pc.principal(`${address}.1contract`)).toThrow(
+    '"1contract" is not a valid contract name'
+  );
+  expect(() => Pc.principal(address).willSendEq(-1)).toThrow('"-1" is not a valid amount');
+  expect(() => Pc.principal(address).willSendEq(1.5)).toThrow('"1.5" is not a valid amount');
+  expect(() => Pc.principal(address).willSendEq(2 ** 64)).toThrow(
+    '"18446744073709552000" is not a valid amount'
+  );
+  expect(() => Pc.principal(address).willSendEq(BigInt('18446744073709551616'))).toThrow(
+    '"18446744073709551616" is not a valid amount'
+  );
+  expect(() => Pc.principal(address).willSendEq('18446744073709551616')).toThrow(
+    '"18446744073709551616" is not a valid amount'
+  );
+  expect(() => Pc.principal(address).willSendEq('1e3')).toThrow('"1e3" is not a valid amount');
+  expect(
+    Pc.principal(address)
+      .willSendEq('18446744073709551615')
+      .ustx()
+      .amount!.toString(10)
+  ).toBe('18446744073709551615');
+  expect(
+    Pc.principal(address)
+      .willSendEq(BigInt(100))
+      .ustx()
+      .amount!.toNumber()
+  ).toBe(100);
+
+  const partial = Pc.principal(address).willSendEq(1);
+  expect(() => partial.ft(`${assetAddress}.contract_name`)).toThrow(
+    `"${assetAddress}.contract_name" is not a valid asset identifier`
+  );
+  expect(() => partial.ft(`${assetAddress}::asset_name`)).toThrow(
+    `"${assetAddress}::asset_name" is not a valid asset identifier`
+  );
+  expect(() => partial.ft(`${assetAddress}.contract_name::1asset`)).toThrow(
+    '"1asset" is not a valid Clarity name'
+  );
+});
@@ -1,4 +1,5 @@
 import {
+  PostCondition,
   STXPostCondition,
   FungiblePostCondition,
   NonFungiblePostCondition,
@@ -13,7 +14,20 @@ import {
   NonFungibleConditionCode,
 } from '../../src/constants';
 
-import { serializeDeserialize } from './macros';
+import {
+  makeOriginSTXPostCondition,
+  makeOriginFungiblePostCondition,
+  makeOriginNonFungiblePostCondition,
+} from '../../src/builders';
+
+import {
+  serializeDeserialize,
+  jsonRoundTrip,
+  expectDeserializationError,
+  replaceByte,
+} from './macros';
+
+import { bufferCV, uintCV, tupleCV } from '../../src/clarity';
 
 import * as BigNum from 'bn.js';
 
@@ -105,7 +119,7 @@ test('Non-fungible post condition serialization and deserialization', () => {
   const assetName = 'asset_name';
   const assetInfo = new AssetInfo(assetAddress, assetContractName, assetName);
 
-  const nftAssetName = 'nft_asset_name';
+  const nftAssetName = bufferCV(Buffer.from('nft_asset_name'));
 
   const postCondition = new NonFungiblePostCondition(
     contractPrincipal,
@@ -124,5 +138,172 @@ test('Non-fungible post condition serialization and deserialization', () => {
   expect(deserialized.assetInfo!.address.toString()).toBe(assetAddress);
   expect(deserialized.assetInfo!.contractName.toString()).toBe(assetContractName);
   expect(deserialized.assetInfo!.assetName.toString()).toBe(assetName);
-  expect(deserialized.assetName!.toString()).toBe(nftAssetName);
+  expect(deserialized.assetName).toEqual(nftAssetName);
+});
+
+test('Post condition deserialization with invalid enum bytes', () => {
+  const principal = new StandardPrincipal('SP2JXKMSH007NPYAQHKJPQMAQYAD90NQGTVJVQ02B');
+  const assetInfo = new AssetInfo(
+    'SP2ZP4GJDZJ1FDHTQ963F0292PE9J9752TZJ68F21',
+    'contract_name',
+    'asset_name'
+  );
+  const stx = new STXPostCondition(
+    principal,
+    FungibleConditionCode.GreaterEqual,
+    new BigNum(1000000)
+  ).serialize();
+  const fungible = new FungiblePostCondition(
+    principal,
+    FungibleConditionCode.Less,
+    new BigNum(1000000),
+    assetInfo
+  ).serialize();
+  const nonFungible = new NonFungiblePostCondition(
+    principal,
+    NonFungibleConditionCode.Owns,
+    assetInfo,
+    bufferCV(Buffer.from('nft_asset_name'))
+  ).serialize();
+
+  expectDeserializationError(
+    PostCondition,
+    replaceByte(stx, 0, 0x03),
+    'Invalid PostConditionType 0x03',
+    0
+  );
+  // the condition code precedes the 8 byte amount, and is the last byte without one
+  const stxCode = stx.length - 9;
+  expectDeserializationError(
+    PostCondition,
+    replaceByte(stx, stxCode, NonFungibleConditionCode.Owns),
+    'Invalid FungibleConditionCode 0x11',
+    stxCode
+  );
+  const fungibleCode = fungible.length - 9;
+  expectDeserializationError(
+    PostCondition,
+    replaceByte(fungible, fungibleCode, 0x06),
+    'Invalid FungibleConditionCode 0x06',
+    fungibleCode
+  );
+  const nonFungibleCode = nonFungible.length - 1;
+  expectDeserializationError(
+    PostCondition,
+    replaceByte(nonFungible, nonFungibleCode, FungibleConditionCode.Equal),
+    'Invalid NonFungibleConditionCode 0x01',
+    nonFungibleCode
+  );
+});
+
+test('Origin principal post condition serialization and deserialization', () => {
+  const assetInfo = new AssetInfo(
+    'SP2ZP4GJDZJ1FDHTQ963F0292PE9J9752TZJ68F21',
+    'contract_name',
+    'asset_name'
+  );
+
+  const stxPostCondition = makeOriginSTXPostCondition(
+    FungibleConditionCode.GreaterEqual,
+    new BigNum(1000000)
+  );
+  expect(stxPostCondition.serialize().toString('hex')).toBe('000103' + '00000000000f4240');
+
+  const fungiblePostCondition = makeOriginFungiblePostCondition(
+    FungibleConditionCode.Less,
+    new BigNum(10),
+    assetInfo
+  );
+  const nonFungiblePostCondition = makeOriginNonFungiblePostCondition(
+    NonFungibleConditionCode.Owns,
+    assetInfo,
+    uintCV(1)
+  );
+  expect(nonFungiblePostCondition.serialize().toString('hex')).toBe(
+    '0201' +
+      assetInfo.serialize().toString('hex') +
+      '01' +
+      '00000000000000000000000000000001' +
+      '11'
+  );
+
+  [stxPostCondition, fungiblePostCondition, nonFungiblePostCondition].forEach(postCondition => {
+    const deserialized = serializeDeserialize(postCondition, PostCondition);
+    expect(deserialized.principal!.principalType).toBe(PrincipalType.Origin);
+    expect(deserialized.serialize().toString('hex')).toBe(
+      postCondition.serialize().toString('hex')
+    );
+
+    expect(postCondition.toJSON().principal).toEqual({ principalType: 'Origin' });
+    const restored = jsonRoundTrip(postCondition, PostCondition);
+    expect(restored.serialize().toString('hex')).toBe(postCondition.serialize().toString('hex'));
+  });
+
+  const deserializedFungible = serializeDeserialize(fungiblePostCondition, PostCondition);
+  expect(deserializedFungible.amount!.toNumber()).toBe(10);
+  expect(deserializedFungible.assetInfo!.assetName.toString()).toBe('asset_name');
+});
+
+test('Post condition JSON round trip', () => {
+  const address = 'SP2JXKMSH007NPYAQHKJPQMAQYAD90NQGTVJVQ02B';
+  const assetInfo = new AssetInfo(
+    'SP2ZP4GJDZJ1FDHTQ963F0292PE9J9752TZJ68F21',
+    'contract_name',
+    'asset_name'
+  );
+
+  const stxPostCondition = new STXPostCondition(
+    new StandardPrincipal(address),
+    FungibleConditionCode.GreaterEqual,
+    new BigNum(1000000)
+  );
+  expect(stxPostCondition.toJSON()).toEqual({
+    postConditionType: 'STX',
+    principal: { principalType: 'Standard', address },
+    conditionCode: 'GreaterEqual',
+    amount: '1000000',
+  });
+
+  const nftPostCondition = new NonFungiblePostCondition(
+    new ContractPrincipal(address, 'contract-name'),
+    NonFungibleConditionCode.DoesNotOwn,
+    assetInfo,
+    tupleCV({ id: uintCV(7), name: bufferCV(Buffer.from('nft_asset_name')) })
+  );
+  expect(nftPostCondition.toJSON()).toEqual({
+    postConditionType: 'NonFungible',
+    principal: { principalType: 'Contract', address, contractName: 'contract-name' },
+    assetInfo: {
+      address: 'SP2ZP4GJDZJ1FDHTQ963F0292PE9J9752TZJ68F21',
+      contractName: 'contract_name',
+      assetName: 'asset_name',
+    },
+    assetName: {
+      type: 'Tuple',
+      value: {
+        id: { type: 'UInt', value: '7' },
+        name: { type: 'Buffer', value: '6e66745f61737365745f6e616d65' },
+      },
+    },
+    conditionCode: 'DoesNotOwn',
+  });
+
+  const postConditions = [
+    stxPostCondition,
+    new FungiblePostCondition(
+      new StandardPrincipal(address),
+      FungibleConditionCode.Less,
+      new BigNum(10),
+      assetInfo
+    ),
+    nftPostCondition,
+  ];
+  postConditions.forEach(postCondition => {
+    const restored = jsonRoundTrip(postCondition, PostCondition);
+    expect(restored.serialize().toString('hex')).toBe(postCondition.serialize().toString('hex'));
+  });
+
+  expect(() =>
+    PostCondition.fromJSON({ ...stxPostCondition.toJSON(), conditionCode: 'Owns' })
+  ).toThrow('Invalid FungibleConditionCode "Owns"');
 });
@@ -1,13 +1,22 @@
-import { StacksTransaction } from '../../src/transaction';
+import { StacksTransaction, deserializeTransaction } from '../../src/transaction';
 
-import { StandardAuthorization, SingleSigSpendingCondition } from '../../src/authorization';
+import { DeserializationError } from '../../src/errors';
 
-import { TokenTransferPayload } from '../../src/payload';
+import {
+  StandardAuthorization,
+  SponsoredAuthorization,
+  SingleSigSpendingCondition,
+  MultiSigSpendingCondition,
+} from '../../src/authorization';
+
+import { TokenTransferPayload, ContractCallPayload } from '../../src/payload';
 
 import { STXPostCondition } from '../../src/postcondition';
 
 import { StandardPrincipal } from '../../src/types';
 
+import { tupleCV, uintCV, someCV, standardPrincipalCV } from '../../src/clarity';
+
 import {
   COINBASE_BUFFER_LENGTH_BYTES,
   DEFAULT_CHAIN_ID,
@@ -19,13 +28,13 @@ import {
   AddressHashMode,
 } from '../../src/constants';
 
-import { hash_p2pkh } from '../../src/utils';
+import { hash_p2pkh, BufferReader } from '../../src/utils';
 
-import { StacksPrivateKey } from '../../src/keys';
+import { StacksPrivateKey, MockSigner } from '../../src/keys';
 
 import { TransactionSigner } from '../../src/signer';
 
-import { serializeDeserialize } from './macros';
+import { serializeDeserialize, jsonRoundTrip } from './macros';
 
 import * as BigNum from 'bn.js';
 import { c32addressDecode } from 'c32check';
@@ -85,3 +94,406 @@ test('STX token transfer transaction serialization and deserialization', () => {
   expect(deserialized.payload!.recipientAddress!.toString()).toBe(recipientAddress);
   expect(deserialized.payload!.amount!.toNumber()).toBe(amount.toNumber());
 });
+
+test('Sponsored STX token transfer transaction serialization and deserialization', () => {
+  const transactionVersion = TransactionVersion.Testnet;
+
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const amount = new BigNum(2500000);
+  const payload = new TokenTransferPayload(recipientAddress, amount, 'memo');
+
+  const addressHashMode = AddressHashMode.SerializeP2PKH;
+  const originPubKey = '03ef788b3830c00abe8f64f62dc32fc863bc0b2cafeb073b6c8e1c7657d9c2c3ab';
+  const sponsorPubKey = '02db3ee269c096bb07fad458f7b1cfada089a72dba6404c2d1a516efd59f2699e5';
+  const originSpendingCondition = new SingleSigSpendingCondition(
+    addressHashMode,
+    originPubKey,
+    new BigNum(0),
+    new BigNum(0)
+  );
+  const sponsorSpendingCondition = new SingleSigSpendingCondition(
+    addressHashMode,
+    sponsorPubKey,
+    new BigNum(7),
+    new BigNum(100)
+  );
+  const authorization = new SponsoredAuthorization(
+    originSpendingCondition,
+    sponsorSpendingCondition
+  );
+
+  const transaction = new StacksTransaction(transactionVersion, authorization, payload);
+
+  const deserialized = serializeDeserialize(transaction, StacksTransaction);
+  expect(deserialized.auth!.authType).toBe(AuthType.Sponsored);
+  expect(deserialized.auth!.spendingCondition!.signerAddress!.data).toBe(hash_p2pkh(originPubKey));
+  expect(deserialized.auth!.sponsorSpendingCondition!.signerAddress!.data).toBe(
+    hash_p2pkh(sponsorPubKey)
+  );
+  expect(deserialized.auth!.sponsorSpendingCondition!.nonce!.toNumber()).toBe(7);
+  expect(deserialized.auth!.sponsorSpendingCondition!.feeRate!.toNumber()).toBe(100);
+  expect(deserialized.serialize()).toEqual(transaction.serialize());
+
+  const initialSighashAuth = transaction.auth!.intoInitialSighashAuth();
+  expect(initialSighashAuth.authType).toBe(AuthType.Sponsored);
+  expect(initialSighashAuth.spendingCondition!.signerAddress!.data).toBe(hash_p2pkh(originPubKey));
+  expect(initialSighashAuth.sponsorSpendingCondition!.signerAddress!.data).toBe('00'.repeat(20));
+  expect(initialSighashAuth.sponsorSpendingCondition!.nonce!.toNumber()).toBe(0);
+  expect(initialSighashAuth.sponsorSpendingCondition!.feeRate!.toNumber()).toBe(0);
+  expect(initialSighashAuth.sponsorSpendingCondition!.numSignatures()).toBe(0);
+});
+
+test('Multi sig STX token transfer transaction signing', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+
+  const privKeys = [
+    '6d430bb91222408e7706c9001cfaeb91b08c2be6d5ac95779ab52c6b431950e001',
+    '2a584d899fed1d24e26b524f202763c8ab30260167429f157f1c119f550fa6af01',
+    'd5200dee706ee53ae98a03fba6cf4fdcc5084c30cfa9e1b3462dcdeaa3e0f1d201',
+  ].map(key => new StacksPrivateKey(key));
+  const pubKeys = privKeys.map(key => key.getPublicKey().toString());
+
+  const makeTransaction = () => {
+    const payload = new TokenTransferPayload(recipientAddress, new BigNum(2500000), 'memo');
+    const spendingCondition = new MultiSigSpendingCondition(
+      AddressHashMode.SerializeP2SH,
+      pubKeys,
+      2,
+      new BigNum(0),
+      new BigNum(0)
+    );
+    const authorization = new StandardAuthorization(spendingCondition);
+    return new StacksTransaction(TransactionVersion.Testnet, authorization, payload);
+  };
+
+  const outOfOrder = new TransactionSigner(makeTransaction());
+  expect(() => outOfOrder.signOrigin(StacksPrivateKey.makeRandom())).toThrow(
+    'Signing key does not match an unsigned public key of the condition'
+  );
+  outOfOrder.signOrigin(privKeys[2]);
+  expect(() => outOfOrder.signOrigin(privKeys[0])).toThrow(
+    'Signatures must be appended in the order of the public keys'
+  );
+
+  const transaction = makeTransaction();
+  const spendingCondition = transaction.auth!.spendingCondition!;
+  const signer = new TransactionSigner(transaction);
+  const initialSigHash = signer.sigHash;
+
+  signer.signOrigin(privKeys[0]);
+  expect(spendingCondition.numSignatures()).toBe(1);
+  signer.signOrigin(privKeys[2]);
+  expect(spendingCondition.numSignatures()).toBe(2);
+  expect(() => signer.signOrigin(privKeys[1])).toThrow('Origin would have too many signatures');
+
+  expect(spendingCondition.authFields[1].publicKey!.toString()).toBe(pubKeys[1]);
+  expect(spendingCondition.replaySigHash(initialSigHash, AuthType.Standard)).toBe(signer.sigHash);
+
+  const deserialized = serializeDeserialize(transaction, StacksTransaction);
+  expect(deserialized.auth!.spendingCondition!.numSignatures()).toBe(2);
+  expect(deserialized.serialize()).toEqual(transaction.serialize());
+});
+
+test('Multi sig transaction signed by cosigners in turn', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+
+  const privKeys = [
+    '6d430bb91222408e7706c9001cfaeb91b08c2be6d5ac95779ab52c6b431950e001',
+    '2a584d899fed1d24e26b524f202763c8ab30260167429f157f1c119f550fa6af01',
+    'd5200dee706ee53ae98a03fba6cf4fdcc5084c30cfa9e1b3462dcdeaa3e0f1d201',
+  ].map(key => new StacksPrivateKey(key));
+  const pubKeys = privKeys.map(key => key.getPublicKey().toString());
+
+  const makeTransaction = () => {
+    const payload = new TokenTransferPayload(recipientAddress, new BigNum(2500000), 'memo');
+    const spendingCondition = new MultiSigSpendingCondition(
+      AddressHashMode.SerializeP2WSH,
+      pubKeys,
+      2,
+      new BigNum(1),
+      new BigNum(100)
+    );
+    const authorization = new StandardAuthorization(spendingCondition);
+    return new StacksTransaction(TransactionVersion.Testnet, authorization, payload);
+  };
+
+  // both signatures made in a single session
+  const expected = makeTransaction();
+  const expectedSigner = new TransactionSigner(expected);
+  expectedSigner.signOrigin(privKeys[1]);
+  expectedSigner.signOrigin(privKeys[2]);
+
+  // first cosigner signs and passes the transaction on as hex
+  const first = makeTransaction();
+  new TransactionSigner(first).signOrigin(privKeys[1]);
+  const partiallySigned = first.serialize().toString('hex');
+
+  // second cosigner resumes from the partially signed transaction
+  const second = StacksTransaction.deserialize(
+    new BufferReader(Buffer.from(partiallySigned, 'hex'))
+  );
+  const secondSigner = new TransactionSigner(second);
+  expect(secondSigner.sigHash).not.toBe(second.signBegin());
+  expect(second.verify().valid).toBe(false);
+  expect(second.verifyOrigin().error).toBe('Expected 2 signatures, found 1');
+  secondSigner.signOrigin(privKeys[2]);
+  expect(second.verify().valid).toBe(true);
+
+  expect(secondSigner.sigHash).toBe(expectedSigner.sigHash);
+  expect(second.serialize().toString('hex')).toBe(expected.serialize().toString('hex'));
+  expect(() => secondSigner.signOrigin(privKeys[0])).toThrow(
+    'Origin would have too many signatures'
+  );
+});
+
+test('Multi sig transaction signed by external signers', async () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+
+  const privKeys = [
+    '6d430bb91222408e7706c9001cfaeb91b08c2be6d5ac95779ab52c6b431950e001',
+    '2a584d899fed1d24e26b524f202763c8ab30260167429f157f1c119f550fa6af01',
+    'd5200dee706ee53ae98a03fba6cf4fdcc5084c30cfa9e1b3462dcdeaa3e0f1d201',
+  ].map(key => new StacksPrivateKey(key));
+  const pubKeys = privKeys.map(key => key.getPublicKey().toString());
+
+  const makeTransaction = () => {
+    const payload = new TokenTransferPayload(recipientAddress, new BigNum(2500000), 'memo');
+    const spendingCondition = new MultiSigSpendingCondition(
+      AddressHashMode.SerializeP2SH,
+      pubKeys,
+      2,
+      new BigNum(0),
+      new BigNum(0)
+    );
+    const authorization = new StandardAuthorization(spendingCondition);
+    return new StacksTransaction(TransactionVersion.Testnet, authorization, payload);
+  };
+
+  const expected = makeTransaction();
+  const expectedSigner = new TransactionSigner(expected);
+  expectedSigner.signOrigin(privKeys[0]);
+  expectedSigner.signOrigin(privKeys[1]);
+
+  const transaction = makeTransaction();
+  const signer = new TransactionSigner(transaction);
+  const signers = privKeys.map(key => new MockSigner(key));
+
+  // the key without a slot is rejected before the signer is asked to sign
+  const stranger = new MockSigner();
+  await expect(signer.signOriginWith(stranger)).rejects.toThrow(
+    'Signing key does not match an unsigned public key of the condition'
+  );
+  expect(stranger.signedHashes).toHaveLength(0);
+
+  const initialSigHash = signer.sigHash;
+  await signer.signOriginWith(signers[0]);
+  await signer.signOriginWith(signers[1]);
+  await expect(signer.signOriginWith(signers[2])).rejects.toThrow(
+    'Origin would have too many signatures'
+  );
+
+  expect(signers[0].signedHashes).toHaveLength(1);
+  expect(signers[1].signedHashes).toHaveLength(1);
+  expect(signers[2].signedHashes).toHaveLength(0);
+  expect(signers[0].signedHashes[0]).not.toBe(initialSigHash);
+
+  expect(signer.sigHash).toBe(expectedSigner.sigHash);
+  expect(transaction.serialize().toString('hex')).toBe(expected.serialize().toString('hex'));
+  expect(transaction.verify().valid).toBe(true);
+});
+
+test('Single sig transaction signature verification', () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const payload = new TokenTransferPayload(recipientAddress, new BigNum(2500000), 'memo');
+  const privKey = new StacksPrivateKey(
+    'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01'
+  );
+  const spendingCondition = new SingleSigSpendingCondition(
+    AddressHashMode.SerializeP2PKH,
+    privKey.getPublicKey().toString(),
+    new BigNum(0),
+    new BigNum(0)
+  );
+  const authorization = new StandardAuthorization(spendingCondition);
+  const transaction = new StacksTransaction(TransactionVersion.Mainnet, authorization, payload);
+
+  expect(transaction.verify().origin.error).toBe('Missing signature');
+
+  new TransactionSigner(transaction).signOrigin(privKey);
+  const verification = transaction.verify();
+  expect(verification.valid).toBe(true);
+  expect(verification.sponsor).toBeUndefined();
+  expect(verification.origin.publicKeys[0].toString()).toBe(privKey.getPublicKey().toString());
+
+  // a signature over different transaction contents recovers to another key
+  transaction.payload!.amount = new BigNum(2500001);
+  const tampered = transaction.verify();
+  expect(tampered.valid).toBe(false);
+  expect(tampered.origin.error).toBe('Public keys do not match the signer address');
+});
+
+test('Single sig transaction signed with the key of another account', async () => {
+  const recipientAddress = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+  const payload = new TokenTransferPayload(recipientAddress, new BigNum(2500000), 'memo');
+  const privKey = new StacksPrivateKey(
+    'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01'
+  );
+  const spendingCondition = new SingleSigSpendingCondition(
+    AddressHashMode.SerializeP2PKH,
+    privKey.getPublicKey().toString(),
+    new BigNum(0),
+    new BigNum(0)
+  );
+  const authorization = new StandardAuthorization(spendingCondition);
+  const transaction = new StacksTransaction(TransactionVersion.Mainnet, authorization, payload);
+  const signer = new TransactionSigner(transaction);
+
+  expect(() => signer.signOrigin(StacksPrivateKey.makeRandom())).toThrow(
+    'Signing key does not match the signer address of the condition'
+  );
+
+  // the external signer is rejected before it is asked to sign
+  const stranger = new MockSigner();
+  await expect(signer.signOriginWith(stranger)).rejects.toThrow(
+    'Signing key does not match the signer address of the condition'
+  );
+  expect(stranger.signedHashes).toHaveLength(0);
+  expect(spendingCondition.numSignatures()).toBe(0);
+
+  await signer.signOriginWith(new MockSigner(privKey));
+  expect(transaction.verify().valid).toBe(true);
+});
+
+test('Transaction deserialization from raw bytes', () => {
+  const tx =
+    '0000000000040015c31b8c1c11c515e244b75806bac48d1399c775000000000000000000000000000' +
+    '00000000004ae1e7a04089e596377ab4a0f74dfbae05c615a8223f1896df0f28fc334dc794f6faed38abdb' +
+    'c611a0f1816738016afa25b4478e607b4d2a58c3d07925f8e040302000000000016df0ba3e79792be7be5e' +
+    '50a370289accfc8c9e032000000000000303974657374206d656d6f0000000000000000000000000000000' +
+    '0000000000000000000';
+
+  const transaction = deserializeTransaction(tx);
+  expect(transaction.serialize().toString('hex')).toBe(tx);
+  expect(deserializeTransaction(Buffer.from(tx, 'hex')).txid()).toBe(transaction.txid());
+  expect(deserializeTransaction(`0x${tx}`).txid()).toBe(transaction.txid());
+
+  const expectError = (data: string, message: string, offset: number) => {
+    try {
+      deserializeTransaction(data);
+    } catch (error) {
+      expect(error).toBeInstanceOf(DeserializationError);
+      expect(error.message).toBe(`${message} at byte offset ${offset}`);
+      expect(error.offset).toBe(offset);
+      return;
+    }
+    throw new Error('Expected deserialization to fail');
+  };
+  const replaceByte = (offset: number, byte: string) =>
+    tx.slice(0, offset * 2) + byte + tx.slice(offset * 2 + 2);
+
+  // version, auth type, anchor mode, post condition mode and payload type bytes
+  expectError(replaceByte(0, '01'), 'Invalid TransactionVersion 0x01', 0);
+  expectError(replaceByte(5, '06'), 'Invalid AuthType 0x06', 5);
+  expectError(replaceByte(109, '00'), 'Invalid AnchorMode 0x00', 109);
+  expectError(replaceByte(110, '03'), 'Invalid PostConditionMode 0x03', 110);
+  expectError(replaceByte(115, '07'), 'Invalid PayloadType 0x07', 115);
+
+  const length = tx.length / 2;
+  expectError(tx + '00', 'Unexpected 1 trailing bytes', length);
+  // the memo is the last field, 34 bytes long
+  expectError(
+    tx.slice(0, -2),
+    'Unexpected end of data: cannot read 34 bytes, 33 remaining',
+    length - 34
+  );
+  expectError(
+    tx.slice(0, 109 * 2),
+    'Unexpected end of data: cannot read 1 bytes, 0 remaining',
+    109
+  );
+
+  expectError('0g', 'Invalid hex string', 0);
+  expectError(`0x${tx.slice(0, 10)}zz`, 'Invalid hex string', 5);
+  expectError(tx.slice(0, 9), 'Invalid hex string', 4);
+});
+
+test('Transaction JSON round trip', () => {
+  const privKeys = [
+    '6d430bb91222408e7706c9001cfaeb91b08c2be6d5ac95779ab52c6b431950e001',
+    '2a584d899fed1d24e26b524f202763c8ab30260167429f157f1c119f550fa6af01',
+    'd5200dee706ee53ae98a03fba6cf4fdcc5084c30cfa9e1b3462dcdeaa3e0f1d201',
+  ].map(key => new StacksPrivateKey(key));
+  const sponsorKey = new StacksPrivateKey(
+    '9888d734e6e80a943a6544159e31d6c7e342f695ec867d549c569fa0028892d401'
+  );
+  const address = 'SP3FGQ8Z7JY9BWYZ5WM53E0M9NK7WHJF0691NZ159';
+
+  const payload = new ContractCallPayload(address, 'kv-store', 'set-value', [
+    tupleCV({ amount: uintCV(10), owner: someCV(standardPrincipalCV(address)) }),
+  ]);
+  const origin = new MultiSigSpendingCondition(
+    AddressHashMode.SerializeP2SH,
+    privKeys.map(key => key.getPublicKey().toString()),
+    2,
+    new BigNum(3),
+    new BigNum(0)
+  );
+  const transaction = new StacksTransaction(
+    TransactionVersion.Mainnet,
+    new SponsoredAuthorization(origin),
+    payload
+  );
+  transaction.postConditions.push(
+    new STXPostCondition(
+      new StandardPrincipal(address),
+      FungibleConditionCode.LessEqual,
+      new BigNum('18446744073709551615')
+    )
+  );
+
+  const signer = new TransactionSigner(transaction);
+  signer.signOrigin(privKeys[0]);
+  signer.signOrigin(privKeys[2]);
+  const sponsorSigner = TransactionSigner.createSponsorSigner(
+    transaction,
+    new SingleSigSpendingCondition(
+      AddressHashMode.SerializeP2PKH,
+      sponsorKey.getPublicKey().toString(),
+      new BigNum(1),
+      new BigNum(1000)
+    )
+  );
+  sponsorSigner.signSponsor(sponsorKey);
+  const sponsored = sponsorSigner.transaction;
+
+  const json = sponsored.toJSON();
+  expect(json.version).toBe('Mainnet');
+  expect(json.anchorMode).toBe('Any');
+  expect(json.postConditionMode).toBe('Deny');
+  expect(json.postConditions[0].amount).toBe('18446744073709551615');
+  expect(json.auth.authType).toBe('Sponsored');
+  expect(json.auth.spendingCondition!.addressHashMode).toBe('SerializeP2SH');
+  expect(json.auth.spendingCondition!.nonce).toBe('3');
+  expect(json.auth.spendingCondition!.authFields!.map(field => field.fieldType)).toEqual([
+    'SignatureCompressed',
+    'PublicKeyCompressed',
+    'SignatureCompressed',
+  ]);
+  expect(json.auth.sponsorSpendingCondition!.feeRate).toBe('1000');
+  expect(json.payload.contractAddress).toBe(address);
+  expect(json.payload.functionArgs![0]).toEqual({
+    type: 'Tuple',
+    value: {
+      amount: { type: 'UInt', value: '10' },
+      owner: { type: 'OptionalSome', value: { type: 'PrincipalStandard', address } },
+    },
+  });
+
+  const restored = jsonRoundTrip(sponsored, StacksTransaction);
+  expect(restored.serialize().toString('hex')).toBe(sponsored.serialize().toString('hex'));
+  expect(restored.verify().valid).toBe(true);
+
+  expect(() => StacksTransaction.fromJSON({ ...json, anchorMode: 'Sometimes' })).toThrow(
+    'Invalid AnchorMode "Sometimes"'
+  );
+});
@@ -0,0 +1,39 @@
+import { BufferReader } from '../../src/utils';
+
+import { BufferOutOfBoundsError } from '../../src/errors';
+
+test('Buffer reader reads integers and length prefixed bytes', () => {
+  const buffer = Buffer.from('ff' + '0102' + '00000003' + '0000000000003039' + '03666f6f', 'hex');
+  const bufferReader = new BufferReader(buffer);
+
+  expect(bufferReader.remaining()).toBe(buffer.length);
+  expect(bufferReader.readUInt8()).toBe(0xff);
+  expect(bufferReader.readUInt16BE()).toBe(0x0102);
+  expect(bufferReader.readUInt32BE()).toBe(3);
+  expect(bufferReader.readUInt64BE().toNumber()).toBe(12345);
+  expect(bufferReader.readVarBytes(1).toString()).toBe('foo');
+  expect(bufferReader.remaining()).toBe(0);
+});
+
+test('Buffer reader rejects reads past the end', () => {
+  const bufferReader = new BufferReader(Buffer.from('0102', 'hex'));
+  expect(bufferReader.readUInt8()).toBe(1);
+
+  try {
+    bufferReader.readUInt32BE();
+    throw new Error('Expected read to fail');
+  } catch (error) {
+    expect(error).toBeInstanceOf(BufferOutOfBoundsError);
+    expect(error.offset).toBe(1);
+    expect(error.bytesRequested).toBe(4);
+    expect(error.bytesRemaining).toBe(1);
+  }
+
+  // a failed read does not advance the reader
+  expect(bufferReader.remaining()).toBe(1);
+  expect(bufferReader.readByte()).toBe(2);
+  expect(() => bufferReader.readByte()).toThrow(BufferOutOfBoundsError);
+  expect(() => new BufferReader(Buffer.from('0000000a00', 'hex')).readVarBytes()).toThrow(
+    'Unexpected end of data: cannot read 10 bytes, 1 remaining at byte offset 4'
+  );
+});